@@ -0,0 +1,64 @@
+import type { EventRef, Events, TFile } from 'obsidian';
+import type { RunCounts, RunItem, RunKind } from './history';
+
+/**
+ * The API other plugins and scripts use to run imports and follow them, available as
+ * `app.plugins.plugins['pebble-sync'].api`. Imports started through it wait for a running sync
+ * like the commands do. Dry runs plan the import without writing anything or emitting events.
+ */
+
+export const API_VERSION = 1;
+
+export interface PebbleNote {
+    type: string;
+    markdown: string;
+    createdAt: string;
+    tags?: string[];
+    attachments?: { url: string; name?: string; mimeType?: string }[];
+    id?: string;
+    uuid?: string;
+    key?: string;
+    // Servers may attach extra fields; they are exposed to templates as-is.
+    [field: string]: unknown;
+}
+
+export interface ImportOptions {
+    force?: boolean; // Overwrite existing notes, like the force re-import command
+    dryRun?: boolean; // Plan the import and report what it would do
+    profile?: string; // Profile ID or name; every profile when missing
+}
+
+export interface SyncStartedEvent {
+    profileId: string;
+    profileName: string;
+    kind: RunKind;
+}
+
+export interface SyncResult {
+    profileId: string;
+    profileName: string;
+    kind: RunKind;
+    dryRun: boolean;
+    counts: RunCounts;
+    summary: string;
+    error?: string; // Set when the run as a whole failed
+    items: RunItem[]; // Every item with its outcome and vault path, including duplicates
+}
+
+export interface PebbleSyncApi {
+    readonly version: number;
+    /** Imports every profile, or the given one, and resolves with one result per profile. */
+    import(options?: ImportOptions): Promise<SyncResult[]>;
+    on(name: 'sync-started', callback: (event: SyncStartedEvent) => void): EventRef;
+    /** After each item that changed the vault. The file is missing for entries that only went into a periodic note. */
+    on(name: 'note-imported', callback: (note: PebbleNote, file: TFile | null, item: RunItem) => void): EventRef;
+    on(name: 'sync-finished', callback: (result: SyncResult) => void): EventRef;
+    offref(ref: EventRef): void;
+}
+
+export const createApi = (events: Events, runImport: (options: ImportOptions) => Promise<SyncResult[]>): PebbleSyncApi => ({
+    version: API_VERSION,
+    import: (options = {}) => runImport(options),
+    on: (name: string, callback: (...data: never[]) => unknown) => events.on(name, callback as (...data: unknown[]) => unknown),
+    offref: (ref: EventRef) => events.offref(ref),
+});
@@ -0,0 +1,125 @@
+import { arrayBufferToHex } from 'obsidian';
+
+/**
+ * Helpers for localizing attachments referenced by Pebble captures. The plugin downloads each
+ * remote file once and names it with a short content hash, so identical files are stored once.
+ */
+
+/** Maps a link found in an item to the address its source serves it from, or null to leave it alone. */
+export type AttachmentResolver = (url: string, inline: boolean) => string | null;
+
+export interface PebbleAttachment {
+    url: string;
+    name?: string;
+    mimeType?: string;
+}
+
+export interface AttachmentReference {
+    /** The full markdown that referenced the file, e.g. `![alt](url)`; empty for item attachments. */
+    markdown: string;
+    url: string;
+    label: string;
+    isEmbed: boolean;
+}
+
+const MARKDOWN_LINK_REGEX = /(!?)\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+const HASH_LENGTH = 10;
+
+const HASHED_NAME_REGEX = new RegExp(`-([0-9a-f]{${HASH_LENGTH}})$`);
+
+const EXTENSIONS_BY_MIME: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'image/heic': 'heic',
+    'audio/mpeg': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/aac': 'aac',
+    'audio/ogg': 'ogg',
+    'audio/wav': 'wav',
+    'audio/webm': 'webm',
+    'video/mp4': 'mp4',
+    'application/pdf': 'pdf',
+};
+
+const KNOWN_EXTENSIONS = new Set(Object.values(EXTENSIONS_BY_MIME).concat(['jpeg', 'mov']));
+
+const hasKnownExtension = (url: string): boolean => {
+    const extension = /\.([a-z0-9]+)$/i.exec(url.split(/[?#]/)[0])?.[1];
+    return !!extension && KNOWN_EXTENSIONS.has(extension.toLowerCase());
+};
+
+/** Resolves relative URLs against the API and reports whether the URL is served by it. */
+export const resolveApiUrl = (apiUrl: string, url: string): string | null => {
+    try {
+        const base = new URL(`${apiUrl}/`);
+        const resolved = new URL(url, base);
+        return resolved.origin === base.origin ? resolved.toString() : null;
+    } catch {
+        return null;
+    }
+};
+
+/** Collects markdown images and links the source serves, plus explicit item attachments. */
+export const findAttachmentReferences = (markdown: string, attachments: unknown, resolve: AttachmentResolver): AttachmentReference[] => {
+    const references: AttachmentReference[] = [];
+    const seen = new Set<string>();
+    const regex = new RegExp(MARKDOWN_LINK_REGEX.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(markdown)) !== null) {
+        const url = resolve(match[3], true);
+        if (!url) continue;
+        // Plain links are only localized when they point at a file, not at a page.
+        if (match[1] !== '!' && !hasKnownExtension(url)) continue;
+        references.push({ markdown: match[0], url, label: match[2], isEmbed: match[1] === '!' });
+        seen.add(url);
+    }
+
+    if (Array.isArray(attachments)) {
+        for (const attachment of attachments as Partial<PebbleAttachment>[]) {
+            if (!attachment || typeof attachment.url !== 'string') continue;
+            const url = resolve(attachment.url, false);
+            if (!url || seen.has(url)) continue;
+            references.push({ markdown: '', url, label: attachment.name ?? '', isEmbed: true });
+            seen.add(url);
+        }
+    }
+
+    return references;
+};
+
+export const hashAttachment = async (data: ArrayBuffer): Promise<string> => {
+    const digest = await window.crypto.subtle.digest('SHA-256', data);
+    return arrayBufferToHex(digest).substring(0, HASH_LENGTH);
+};
+
+/** Returns the content hash embedded in a localized attachment's basename, if any. */
+export const getAttachmentHash = (basename: string): string | null => HASHED_NAME_REGEX.exec(basename)?.[1] ?? null;
+
+/** Builds `<name>-<hash>.<ext>` from the URL path, falling back to the content type for the extension. */
+export const buildAttachmentName = (url: string, contentType: string | undefined, hash: string): string => {
+    let pathName = '';
+    try {
+        // Files from an export archive are addressed by their path inside it rather than a URL.
+        pathName = /^[a-z][a-z0-9+.-]*:/i.test(url) ? decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '') : url.split('/').pop() ?? '';
+    } catch {
+        pathName = '';
+    }
+
+    const dot = pathName.lastIndexOf('.');
+    const urlExtension = dot > 0 ? pathName.substring(dot + 1).toLowerCase() : '';
+    const mime = (contentType ?? '').split(';')[0].trim().toLowerCase();
+    const extension = /^[a-z0-9]{1,5}$/.test(urlExtension) ? urlExtension : (EXTENSIONS_BY_MIME[mime] ?? 'bin');
+    const stem = (dot > 0 ? pathName.substring(0, dot) : pathName)
+        .replace(/[\\/:*?"<>|#^[\]]/g, '-')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .substring(0, 60) || 'pebble-attachment';
+
+    return `${stem}-${hash}.${extension}`;
+};
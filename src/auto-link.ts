@@ -0,0 +1,55 @@
+/**
+ * Links mentions of existing notes in imported content. Only exact, whole-word mentions of a
+ * note's name or alias are linked, each note once per capture, and never inside code, existing
+ * links, URLs, tags or comments.
+ */
+
+export interface LinkTarget {
+    title: string; // Name or alias as it appears in text
+    linktext: string; // Link path of the note
+    path: string;
+}
+
+/**
+ * Links mentions in the text, leaving out the note at `selfPath`. Each inserted link is added to
+ * `rewrites` with the text it replaced, so pushes can send the text without it.
+ */
+export type Linker = (text: string, selfPath?: string, rewrites?: Map<string, string>) => string;
+
+const PROTECTED_REGEX = /```[\s\S]*?```|`[^`\n]*`|!?\[\[[^\]]*\]\]|!?\[[^\]]*\]\([^)]*\)|<[^>\n]+>|[a-z][a-z0-9+.-]*:\/\/[^\s)>\]]+|#[^\s#]+|%%[\s\S]*?%%|\$\$[\s\S]*?\$\$/gi;
+
+const WORD_CHAR_REGEX = /[\p{L}\p{N}_]/u;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isWordChar = (char: string): boolean => !!char && WORD_CHAR_REGEX.test(char);
+
+/** Builds the matcher once per import. Longer titles are tried first, so "New York City" wins over "New York". */
+export const createLinker = (targets: LinkTarget[]): Linker => {
+    if (targets.length === 0) return text => text;
+    const byTitle = new Map(targets.map(target => [target.title, target]));
+    const pattern = new RegExp([...byTitle.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|'), 'g');
+
+    return (text, selfPath, rewrites) => {
+        const linked = new Set<string>();
+        const linkSpan = (span: string) => span.replace(pattern, (match: string, offset: number) => {
+            const target = byTitle.get(match);
+            if (!target || target.path === selfPath || linked.has(target.path)) return match;
+            if (isWordChar(span.charAt(offset - 1)) || isWordChar(span.charAt(offset + match.length))) return match;
+            linked.add(target.path);
+            const link = target.linktext === match ? `[[${match}]]` : `[[${target.linktext}|${match}]]`;
+            rewrites?.set(link, match);
+            return link;
+        });
+
+        let result = '';
+        let last = 0;
+        const regex = new RegExp(PROTECTED_REGEX.source, PROTECTED_REGEX.flags);
+        let protectedMatch: RegExpExecArray | null;
+        while ((protectedMatch = regex.exec(text)) !== null) {
+            result += linkSpan(text.substring(last, protectedMatch.index)) + protectedMatch[0];
+            last = protectedMatch.index + protectedMatch[0].length;
+        }
+        return result + linkSpan(text.substring(last));
+    };
+};
@@ -0,0 +1,99 @@
+/**
+ * Text helpers for the entries Pebble Sync writes under the daily note section heading. The first
+ * line of every entry ends with a hidden `%%pebble <time> <lines> <id>%%` comment recording the
+ * capture time, how many lines the entry spans and, for inline entries, the block ID of the item,
+ * so entries can be kept in chronological order and removed again without touching anything else
+ * in the section.
+ */
+
+export type DailyEntryStyle = 'embed' | 'link' | 'list' | 'callout' | 'inline';
+
+export interface SectionEntry {
+    start: number; // Line index of the first line
+    end: number; // Line index after the last line
+    time: number | null; // Null for entries written before markers existed
+    id?: string;
+}
+
+const MARKER_REGEX = /\s*%%pebble (\S+) (\d+)(?: (\S+))?%%\s*$/;
+
+// Splits a line into its list, checkbox or quote prefix, the text, and a trailing marker or block ID.
+const STRIKE_REGEX = /^(\s*(?:>\s?)*(?:[-*+]\s(?:\[.\]\s)?|\d+[.)]\s)?)(.*?)((?:\s*%%pebble [^%]*%%|\s+\^[a-z0-9-]+)*)$/;
+
+const HEADING_REGEX = /^#+\s/;
+
+/** Appends the marker to the entry's first line. Entries that must stay separate blocks end with a blank line. */
+export const markEntry = (entry: string, time: string, id?: string): string[] => {
+    const lines = entry.split('\n');
+    lines[0] = `${lines[0]} %%pebble ${time} ${lines.length}${id ? ` ${id}` : ''}%%`;
+    return lines;
+};
+
+export const stripMarkers = (content: string): string => content.split('\n').map(line => line.replace(MARKER_REGEX, '')).join('\n');
+
+/** Returns the line range of the section body below the heading, up to the next heading. */
+export const findSection = (lines: string[], headingIndex: number): { start: number; end: number } => {
+    let end = headingIndex + 1;
+    while (end < lines.length && !HEADING_REGEX.test(lines[end])) end++;
+    return { start: headingIndex + 1, end };
+};
+
+/** Lists the marked entries of a section. Unmarked lines are not part of any entry. */
+export const parseSectionEntries = (lines: string[], start: number, end: number): SectionEntry[] => {
+    const entries: SectionEntry[] = [];
+    for (let i = start; i < end; i++) {
+        const match = MARKER_REGEX.exec(lines[i]);
+        if (!match) continue;
+        const time = Date.parse(match[1]);
+        const length = Math.max(1, parseInt(match[2], 10));
+        entries.push({ start: i, end: Math.min(end, i + length), time: Number.isNaN(time) ? null : time, id: match[3] });
+        i += length - 1;
+    }
+    return entries;
+};
+
+/**
+ * Inserts entry lines into the section so marked entries stay ordered by capture time; an entry
+ * newer than everything else goes after the last non-blank line of the section.
+ */
+export const insertSorted = (lines: string[], start: number, end: number, entryLines: string[], time: number): string[] => {
+    const entries = parseSectionEntries(lines, start, end);
+    const later = entries.find(entry => entry.time !== null && entry.time > time);
+    let insertIndex = later?.start;
+    if (insertIndex === undefined) {
+        // Blank lines that belong to the last entry stay with it.
+        const lastEnd = entries.length > 0 ? entries[entries.length - 1].end : start;
+        insertIndex = end;
+        while (insertIndex > lastEnd && lines[insertIndex - 1].trim() === '') insertIndex--;
+    }
+    const result = [...lines];
+    // Keep a blank line between the section and the heading that follows it.
+    const spacing = insertIndex === end && end < lines.length && lines[end - 1]?.trim() !== '' ? [''] : [];
+    result.splice(insertIndex, 0, ...entryLines, ...spacing);
+    return result;
+};
+
+/** The line ranges of the entries marked with the ID and of lines ending with it as a block ID, last first. */
+export const findItemLines = (lines: string[], id: string): { start: number; end: number }[] => {
+    const ranges: { start: number; end: number }[] = parseSectionEntries(lines, 0, lines.length).filter(entry => entry.id === id);
+    lines.forEach((line, index) => {
+        if (line.trimEnd().endsWith(` ^${id}`)) ranges.push({ start: index, end: index + 1 });
+    });
+    return ranges.sort((a, b) => b.start - a.start);
+};
+
+/** Strikes the text of a line through, keeping its list or checkbox prefix and any marker or block ID. */
+export const strikeLine = (line: string): string => {
+    const match = STRIKE_REGEX.exec(line);
+    if (!match || !match[2].trim() || match[2].startsWith('~~')) return line;
+    return `${match[1]}~~${match[2]}~~${match[3]}`;
+};
+
+/** Removes the entry containing the given line, or just that line when it is not part of a marked entry. */
+export const removeEntryAt = (lines: string[], lineIndex: number): string[] => {
+    const entry = parseSectionEntries(lines, 0, lines.length).find(candidate => candidate.start <= lineIndex && lineIndex < candidate.end);
+    const result = [...lines];
+    if (entry) result.splice(entry.start, entry.end - entry.start);
+    else result.splice(lineIndex, 1);
+    return result;
+};
@@ -0,0 +1,57 @@
+import { JsonFileStore } from './json-file-store';
+
+/**
+ * Which periodic notes link to each imported note, so their entries can follow the note when it
+ * is renamed or deleted. Stored in its own file since it grows with every imported note.
+ *
+ * Inline entries and task lines have no note of their own, so they are kept under the block ID of
+ * their item instead, for removing them when the item is deleted or archived on the server.
+ */
+
+const ITEM_KEY_PREFIX = 'item:';
+
+export class DailyEntryIndex extends JsonFileStore<string[]> {
+    /** Adds entries from data.json or older versions, which stored a single daily note path per note. */
+    merge(entries: Record<string, string | string[]>) {
+        this.addMissing(entries);
+    }
+
+    get(notePath: string): string[] | undefined {
+        return this.entries.get(notePath);
+    }
+
+    set(notePath: string, dailyPaths: string[]) {
+        this.entries.set(notePath, dailyPaths);
+        this.dirty = true;
+    }
+
+    getItem(blockId: string): string[] | undefined {
+        return this.entries.get(ITEM_KEY_PREFIX + blockId);
+    }
+
+    /** Adds the periodic notes or task file holding the item's lines. */
+    addItem(blockId: string, paths: string[]) {
+        const current = this.getItem(blockId) ?? [];
+        const added = paths.filter(path => !current.includes(path));
+        if (added.length === 0) return;
+        this.set(ITEM_KEY_PREFIX + blockId, [...current, ...added]);
+    }
+
+    deleteItem(blockId: string): boolean {
+        return this.delete(ITEM_KEY_PREFIX + blockId);
+    }
+
+    /** Follows a renamed periodic note in every entry that points to it. */
+    renameDailyPath(oldPath: string, newPath: string) {
+        this.entries.forEach((paths, notePath) => {
+            if (!paths.includes(oldPath)) return;
+            this.entries.set(notePath, paths.map(dailyPath => dailyPath === oldPath ? newPath : dailyPath));
+            this.dirty = true;
+        });
+    }
+
+    protected toEntry(value: unknown): string[] | null {
+        if (typeof value === 'string') return [value];
+        return Array.isArray(value) ? value.filter((path): path is string => typeof path === 'string') : null;
+    }
+}
@@ -0,0 +1,95 @@
+import { arrayBufferToHex } from 'obsidian';
+import { JsonFileStore, StoreFile } from './json-file-store';
+
+/** Record of every Pebble item that has been imported. Keys are SHA-256 hashes of the item. */
+
+export interface DedupeEntry {
+    importedAt: string;
+    itemId?: string;
+    createdAt?: string;
+    title?: string;
+    /** Carried over from the old 32-bit settings keys; replaced by a SHA-256 key when next seen. */
+    legacy?: boolean;
+}
+
+export const sha256Hex = async (value: string): Promise<string> => {
+    const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return arrayBufferToHex(digest);
+};
+
+const isEntry = (value: unknown): value is DedupeEntry =>
+    typeof value === 'object' && value !== null && typeof (value as DedupeEntry).importedAt === 'string';
+
+export class DedupeIndex extends JsonFileStore<DedupeEntry> {
+    /**
+     * Looks a key up. When the item was recorded under its old settings key, the entry is moved
+     * to the new key so later lookups are direct.
+     */
+    has(key: string, legacyKey?: string): boolean {
+        if (this.entries.has(key)) return true;
+        const legacy = legacyKey ? this.entries.get(legacyKey) : undefined;
+        if (!legacy || !legacyKey) return false;
+        this.entries.delete(legacyKey);
+        this.entries.set(key, { ...legacy, legacy: undefined });
+        this.dirty = true;
+        return true;
+    }
+
+    add(key: string, entry: Omit<DedupeEntry, 'importedAt'>) {
+        this.entries.set(key, { importedAt: new Date().toISOString(), ...entry });
+        this.dirty = true;
+    }
+
+    addLegacy(keys: string[]) {
+        const importedAt = new Date().toISOString();
+        for (const key of keys) {
+            if (typeof key !== 'string' || !key || this.entries.has(key)) continue;
+            this.entries.set(key, { importedAt, legacy: true });
+        }
+        this.dirty = true;
+    }
+
+    clear() {
+        this.entries.clear();
+        this.dirty = true;
+    }
+
+    /** Case-insensitive search over keys, item IDs, titles and dates, newest first. */
+    search(query: string, limit = 50): [string, DedupeEntry][] {
+        const needle = query.trim().toLowerCase();
+        const results: [string, DedupeEntry][] = [];
+        for (const [key, entry] of this.entries) {
+            const haystack = [key, entry.itemId, entry.title, entry.createdAt].filter(Boolean).join('\n').toLowerCase();
+            if (!needle || haystack.includes(needle)) results.push([key, entry]);
+        }
+        results.sort((a, b) => b[1].importedAt.localeCompare(a[1].importedAt));
+        return results.slice(0, limit);
+    }
+
+    /** Drops entries imported before the given date and returns how many were removed. */
+    prune(before: Date): number {
+        const cutoff = before.toISOString();
+        let removed = 0;
+        for (const [key, entry] of this.entries) {
+            if (entry.importedAt < cutoff) {
+                this.entries.delete(key);
+                removed++;
+            }
+        }
+        if (removed > 0) this.dirty = true;
+        return removed;
+    }
+
+    /** Adds the entries of an exported index, keeping existing ones. Returns how many were new. */
+    merge(json: string): number {
+        const parsed = JSON.parse(json) as Partial<StoreFile<unknown>>;
+        if (!parsed || typeof parsed.entries !== 'object' || parsed.entries === null) {
+            throw new Error('Not a Pebble Sync import history file');
+        }
+        return this.addMissing(parsed.entries);
+    }
+
+    protected toEntry(value: unknown): DedupeEntry | null {
+        return isEntry(value) ? value : null;
+    }
+}
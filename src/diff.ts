@@ -0,0 +1,45 @@
+export interface DiffLine {
+    type: 'same' | 'add' | 'remove';
+    text: string;
+}
+
+// Beyond this many lines per side the LCS table gets expensive; fall back to a full replacement.
+const MAX_DIFF_LINES = 1000;
+
+/** Line-based diff using a longest common subsequence table. */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+        return [
+            ...a.map(text => ({ type: 'remove' as const, text })),
+            ...b.map(text => ({ type: 'add' as const, text })),
+        ];
+    }
+
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            result.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            result.push({ type: 'remove', text: a[i++] });
+        } else {
+            result.push({ type: 'add', text: b[j++] });
+        }
+    }
+    while (i < a.length) result.push({ type: 'remove', text: a[i++] });
+    while (j < b.length) result.push({ type: 'add', text: b[j++] });
+    return result;
+};
@@ -0,0 +1,52 @@
+import { App, FuzzySuggestModal, Notice, TFile } from 'obsidian';
+
+/** A vault file, or null for the entry that opens the system file picker. */
+type ExportFileChoice = TFile | null;
+
+const EXPORT_EXTENSIONS = ['json', 'zip'];
+
+/**
+ * Asks for a Pebble export to import: a JSON or ZIP file from the vault, or any file on the
+ * device through the system file picker.
+ */
+export class ExportFileSuggestModal extends FuzzySuggestModal<ExportFileChoice> {
+    constructor(app: App, private onChoose: (name: string, data: ArrayBuffer) => void | Promise<void>) {
+        super(app);
+        this.setPlaceholder('Choose an export file');
+    }
+
+    getItems(): ExportFileChoice[] {
+        const files = this.app.vault.getFiles()
+            .filter(file => EXPORT_EXTENSIONS.includes(file.extension.toLowerCase()))
+            .sort((a, b) => b.stat.mtime - a.stat.mtime);
+        return [null, ...files];
+    }
+
+    getItemText(file: ExportFileChoice): string {
+        return file ? file.path : 'Choose a file from this device...';
+    }
+
+    onChooseItem(file: ExportFileChoice) {
+        if (file) {
+            this.read(file.name, () => this.app.vault.readBinary(file));
+            return;
+        }
+
+        const input = window.activeDocument.body.createEl('input', { type: 'file', attr: { accept: EXPORT_EXTENSIONS.map(extension => `.${extension}`).join(',') } });
+        input.hide();
+        input.addEventListener('cancel', () => input.remove());
+        input.addEventListener('change', () => {
+            const chosen = input.files?.[0];
+            input.remove();
+            if (chosen) this.read(chosen.name, () => chosen.arrayBuffer());
+        });
+        input.click();
+    }
+
+    private read(name: string, load: () => Promise<ArrayBuffer>) {
+        load().then(data => this.onChoose(name, data)).catch(error => {
+            console.error(`Pebble Sync: Failed to read ${name}`, error);
+            new Notice(`Could not read ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        });
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Persisted record of recent sync runs, shown in the status view. Each run keeps the raw items so
+ * a single capture can be re-imported without fetching the whole feed again, which is why the
+ * history lives in its own file rather than in data.json.
+ */
+import type { SyncProfile } from './profiles';
+
+export type RunKind = 'import' | 'force-import' | 'file-import' | 'preview' | 're-import' | 'push';
+
+export type RunItemOutcome = 'created' | 'updated' | 'daily-entry' | 'task' | 'skipped-duplicate' | 'skipped-existing' | 'kept-local' | 'conflict' | 'failed';
+
+export interface RunItem {
+    key: string; // Dedupe key
+    title: string;
+    outcome: RunItemOutcome;
+    path?: string;
+    error?: string;
+    note: Record<string, unknown>; // Raw Pebble item
+}
+
+export interface RunCounts {
+    created: number;
+    updated: number;
+    skipped: number;
+    conflicts: number;
+    failed: number;
+}
+
+export interface SyncRun {
+    id: string;
+    kind: RunKind;
+    profileId?: string; // Missing on runs recorded before profiles existed
+    profileName?: string;
+    startedAt: string;
+    finishedAt?: string;
+    counts: RunCounts;
+    summary: string;
+    error?: string; // Set when the run as a whole failed, e.g. the fetch itself
+    items: RunItem[];
+}
+
+export const MAX_RUNS = 20;
+
+export const MAX_ITEMS_PER_RUN = 200;
+
+interface HistoryFile {
+    version: number;
+    runs: SyncRun[];
+}
+
+const FILE_VERSION = 1;
+
+export const serializeHistory = (runs: SyncRun[]): string => {
+    const file: HistoryFile = { version: FILE_VERSION, runs };
+    return JSON.stringify(file);
+};
+
+export const parseHistory = (json: string): SyncRun[] => {
+    const parsed = JSON.parse(json) as Partial<HistoryFile> | null;
+    return Array.isArray(parsed?.runs) ? parsed.runs : [];
+};
+
+export const createRun = (kind: RunKind, profile: SyncProfile): SyncRun => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    kind,
+    profileId: profile.id,
+    profileName: profile.name,
+    startedAt: new Date().toISOString(),
+    counts: { created: 0, updated: 0, skipped: 0, conflicts: 0, failed: 0 },
+    summary: '',
+    items: [],
+});
+
+export const addRunItem = (run: SyncRun, item: RunItem) => {
+    if (item.outcome === 'created' || item.outcome === 'daily-entry' || item.outcome === 'task') run.counts.created++;
+    else if (item.outcome === 'updated') run.counts.updated++;
+    else if (item.outcome === 'conflict') run.counts.conflicts++;
+    else if (item.outcome === 'failed') run.counts.failed++;
+    else run.counts.skipped++;
+
+    // Duplicates are only counted; listing every already-imported item would bury the rest.
+    if (item.outcome !== 'skipped-duplicate' && run.items.length < MAX_ITEMS_PER_RUN) {
+        run.items.push(item);
+    }
+};
+
+/** Adds a finished run to the front of the history, dropping the oldest runs past the limit. */
+export const appendRun = (history: SyncRun[], run: SyncRun): SyncRun[] => [run, ...history.filter(existing => existing.id !== run.id)].slice(0, MAX_RUNS);
@@ -0,0 +1,158 @@
+import { moment } from 'obsidian';
+
+/**
+ * Pebble item types besides notes. Every item is given a `markdown` text so it can go through
+ * the same import pipeline as notes, and each type adds its own variables for its template.
+ *
+ *   task       { text | title, due?, priority?, done?, completedAt? }
+ *   bookmark   { url, title?, description?, markdown? }
+ *   checklist  { title?, description?, items: [{ text, checked }] }
+ */
+
+export type TaskDestination = 'daily' | 'file';
+
+type PebbleItem = Record<string, unknown>;
+
+interface ChecklistEntry {
+    text: string;
+    checked: boolean;
+}
+
+// The priority signifiers of the Tasks plugin, highest first; numeric priorities count from 1.
+const PRIORITIES = ['highest', 'high', 'medium', 'low', 'lowest'];
+const PRIORITY_EMOJIS: Record<string, string> = { highest: '🔺', high: '⏫', medium: '🔼', low: '🔽', lowest: '⏬' };
+
+export const DEFAULT_TASK_TEMPLATE = '- {{checkbox}} {{content}}{{#if priority}} {{priority}}{{/if}}{{#if due}} 📅 {{due}}{{/if}}{{#if date}} ➕ {{date}}{{/if}}{{#if doneDate}} ✅ {{doneDate}}{{/if}}';
+
+export const DEFAULT_BOOKMARK_TEMPLATE = `---
+url: {{url | yaml}}
+title: {{title | yaml}}
+description: {{description | yaml}}
+created: {{fullDateTime}}
+tags: [pebble, bookmark{{#each tags}}, {{this | yaml}}{{/each}}]
+---
+
+[{{title}}]({{url}})
+
+{{content}}`;
+
+export const DEFAULT_CHECKLIST_TEMPLATE = `---
+created: {{fullDateTime}}
+tags: [pebble, checklist{{#each tags}}, {{this | yaml}}{{/each}}]
+---
+
+{{content}}`;
+
+const text = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const formatDay = (value: unknown): string => {
+    if (typeof value !== 'string' || !value.trim()) return '';
+    // Keep the date as written rather than moving it into the device's time zone.
+    const parsed = moment.parseZone(value.trim(), moment.ISO_8601);
+    return parsed.isValid() ? parsed.format('YYYY-MM-DD') : '';
+};
+
+export const getItemType = (item: PebbleItem): string => text(item.type).toLowerCase();
+
+const getPriority = (value: unknown): string => {
+    if (typeof value === 'number') return PRIORITIES[Math.min(Math.max(Math.round(value), 1), PRIORITIES.length) - 1];
+    const name = text(value).toLowerCase();
+    return PRIORITIES.includes(name) ? name : '';
+};
+
+const isTaskDone = (item: PebbleItem): boolean => item.done === true || item.completed === true || !!text(item.completedAt);
+
+const getChecklistEntries = (item: PebbleItem): ChecklistEntry[] => {
+    const entries = Array.isArray(item.items) ? item.items as unknown[] : [];
+    return entries
+        .map(entry => {
+            if (typeof entry === 'string') return { text: entry.trim(), checked: false };
+            const fields = (entry ?? {}) as PebbleItem;
+            return {
+                text: text(fields.text) || text(fields.title) || text(fields.label),
+                checked: fields.checked === true || fields.done === true || fields.completed === true
+            };
+        })
+        .filter(entry => entry.text);
+};
+
+const renderChecklist = (entries: ChecklistEntry[]): string =>
+    entries.map(entry => `- [${entry.checked ? 'x' : ' '}] ${entry.text.replace(/\s*\n\s*/g, ' ')}`).join('\n');
+
+/** Gives the item its `markdown`: a task's text, a bookmark's notes or a checklist's description and entries. */
+export const normalizeItem = <T extends PebbleItem>(item: T): T => {
+    switch (getItemType(item)) {
+        case 'task':
+            return { ...item, markdown: text(item.markdown) || text(item.text) || text(item.title) };
+        case 'bookmark':
+            return { ...item, markdown: text(item.markdown) || text(item.notes) };
+        case 'checklist': {
+            const description = text(item.description) || text(item.markdown);
+            return { ...item, markdown: [description, renderChecklist(getChecklistEntries(item))].filter(Boolean).join('\n\n') };
+        }
+        default:
+            return item;
+    }
+};
+
+/**
+ * The server-side state an item is compared by. Bookmarks include their URL and description so
+ * edits to them update the note; tasks include their state, due date and priority so their line
+ * is rewritten when one changes.
+ */
+export const getItemSignature = (item: PebbleItem): string => {
+    const markdown = typeof item.markdown === 'string' ? item.markdown : '';
+    const type = getItemType(item);
+    if (type === 'task') return JSON.stringify([markdown, isTaskDone(item), formatDay(item.due ?? item.dueDate), getPriority(item.priority)]);
+    if (type !== 'bookmark') return markdown;
+    return JSON.stringify([markdown, text(item.url), text(item.title), text(item.description)]);
+};
+
+/**
+ * The block ID that ends a task's line, so a later sync can find the line and rewrite it. The
+ * Tasks plugin reads its fields in front of a trailing block ID, so the dates stay visible to it.
+ */
+export const getTaskBlockId = (itemId: string): string => `pebble-${itemId.toLowerCase().replace(/[^a-z0-9-]+/g, '-')}`;
+
+/** The title a bookmark or checklist brings along, or an empty string to use the usual title. */
+export const getItemTitle = (item: PebbleItem): string => {
+    const type = getItemType(item);
+    if (type === 'checklist') return text(item.title);
+    if (type !== 'bookmark') return '';
+    const url = text(item.url);
+    return text(item.title) || url.replace(/^[a-z]+:\/\//i, '').split(/[/?#]/)[0];
+};
+
+/** Template variables of the item's type, on top of the fields every item has. */
+export const getItemTypeFields = (item: PebbleItem): Record<string, unknown> => {
+    const type = getItemType(item);
+    if (type === 'task') {
+        const done = isTaskDone(item);
+        const priority = getPriority(item.priority);
+        return {
+            // A task is a single line, so line breaks in its text are folded.
+            content: text(item.markdown).replace(/\s*\n\s*/g, ' '),
+            checkbox: done ? '[x]' : '[ ]',
+            done,
+            // Without a completion time the date is unknown; today would be wrong for tasks finished long ago.
+            doneDate: done ? formatDay(item.completedAt) : '',
+            due: formatDay(item.due ?? item.dueDate),
+            scheduled: formatDay(item.scheduled),
+            priority: priority ? PRIORITY_EMOJIS[priority] : '',
+            priorityName: priority,
+        };
+    }
+    if (type === 'bookmark') {
+        return { url: text(item.url), description: text(item.description) };
+    }
+    if (type === 'checklist') {
+        const entries = getChecklistEntries(item);
+        return {
+            description: text(item.description),
+            checklist: renderChecklist(entries),
+            completed: entries.filter(entry => entry.checked).length,
+            total: entries.length,
+        };
+    }
+    return {};
+};
@@ -0,0 +1,69 @@
+import { DataAdapter } from 'obsidian';
+
+/**
+ * A keyed map kept in its own JSON file next to data.json, so it can grow without slowing down
+ * settings saves. Changes are only written when something is marked dirty.
+ */
+
+export interface StoreFile<T> {
+    version: number;
+    entries: Record<string, T>;
+}
+
+const FILE_VERSION = 1;
+
+export abstract class JsonFileStore<T> {
+    protected entries = new Map<string, T>();
+    protected dirty = false;
+
+    constructor(private adapter: DataAdapter, readonly path: string) {}
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    async load() {
+        this.entries.clear();
+        this.dirty = false;
+        if (!(await this.adapter.exists(this.path))) return;
+        const parsed = JSON.parse(await this.adapter.read(this.path)) as Partial<StoreFile<unknown>> | null;
+        this.addMissing(parsed?.entries ?? {});
+        this.dirty = false;
+    }
+
+    /** Writes the file if anything changed since it was loaded or last saved. */
+    async save() {
+        if (!this.dirty) return;
+        await this.adapter.write(this.path, this.serialize());
+        this.dirty = false;
+    }
+
+    delete(key: string): boolean {
+        const deleted = this.entries.delete(key);
+        if (deleted) this.dirty = true;
+        return deleted;
+    }
+
+    serialize(): string {
+        const file: StoreFile<T> = { version: FILE_VERSION, entries: {} };
+        this.entries.forEach((entry, key) => { file.entries[key] = entry; });
+        return JSON.stringify(file);
+    }
+
+    /** Converts a stored value to an entry, or returns null to skip it. */
+    protected abstract toEntry(value: unknown): T | null;
+
+    /** Adds the entries that aren't in the store yet and returns how many were new. */
+    protected addMissing(entries: Record<string, unknown>): number {
+        let added = 0;
+        for (const key of Object.keys(entries)) {
+            if (this.entries.has(key)) continue;
+            const entry = this.toEntry(entries[key]);
+            if (entry === null) continue;
+            this.entries.set(key, entry);
+            added++;
+        }
+        if (added > 0) this.dirty = true;
+        return added;
+    }
+}
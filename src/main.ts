@@ -1,4 +1,28 @@
-import { App, Plugin, Notice, normalizePath, moment, Setting, TFile, PluginSettingTab, requestUrl } from 'obsidian';
+import { App, Events, ObsidianProtocolData, parseFrontMatterAliases, Plugin, ReferenceCache, Notice, normalizePath, moment, Setting, TAbstractFile, TFile, TFolder, PluginSettingTab, getLinkpath, requestUrl, RequestUrlParam, RequestUrlResponse, getAllTags, parseFrontMatterTags, parseYaml, stringifyYaml, FrontMatterCache } from 'obsidian';
+import { renderTemplate, validateTemplate } from './template';
+import { buildAttachmentName, findAttachmentReferences, getAttachmentHash, hashAttachment } from './attachments';
+import { ImportPreviewModal, PreviewItem } from './preview-modal';
+import { addRunItem, appendRun, createRun, parseHistory, RunItem, RunKind, serializeHistory, SyncRun } from './history';
+import { createApi, ImportOptions, PebbleNote, PebbleSyncApi, SyncResult } from './api';
+import { SyncStatusView, VIEW_TYPE_SYNC_STATUS } from './status-view';
+import { requestWithRetry } from './network';
+import { SyncCancelledError, SyncCoordinator, throwIfCancelled } from './sync-coordinator';
+import { DedupeIndex, sha256Hex } from './dedupe-index';
+import { DailyEntryIndex } from './daily-entry-index';
+import { belongsToProfile, createProfile, DEFAULT_PROFILE_ID, SyncProfile } from './profiles';
+import { ProfileSuggestModal } from './profile-suggest-modal';
+import { ExportFileSuggestModal } from './export-file-modal';
+import { ExportFileSource, HttpSource, SyncSource } from './sources';
+import { DailyEntryStyle, findItemLines, findSection, insertSorted, markEntry, removeEntryAt, strikeLine, stripMarkers } from './daily-entries';
+import { DEFAULT_BOOKMARK_TEMPLATE, DEFAULT_CHECKLIST_TEMPLATE, DEFAULT_TASK_TEMPLATE, getItemSignature, getItemTitle, getItemType, getItemTypeFields, getTaskBlockId, normalizeItem, TaskDestination } from './item-types';
+import { getRemovalKind, getRemovals, PendingRemoval, Removal, RemovalKind, RemovalPolicy, RemovedEntryAction } from './removals';
+import { ConfirmRemovalModal } from './removal-modal';
+import { buildTitle, stripMarkdown, TITLE_STRATEGY_LABELS, TitleStrategy, truncateAtWord } from './titles';
+import { createLinker, Linker, LinkTarget } from './auto-link';
+import { createTagIndex, getEntryLinkpath, TagIndexEntry, updateTagIndex } from './tag-index';
+import { getDeviceTimeZone, InvalidTimestampError, isValidTimeZone, momentInZone, parseTimestamp } from './timezones';
+import { createPeriodicNoteSettings, DEFAULT_PERIOD_FORMATS, NOTE_PERIODS, NotePeriod, PERIOD_LABELS, PeriodicNoteConfig, PeriodicNoteSettings, readPeriodicNotesConfig, renderPeriodicTemplate, runTemplater } from './periodic-notes';
+import { createRoutingRule, findMatchingRule, toMinutes, validateRoutingRule, RouteAction, RouteDailyLink, RouteMatch, RouteTitleStrategy, RoutingRule } from './routing';
 
 interface InternalPlugin {
     enabled: boolean;
@@ -18,12 +42,64 @@ interface InternalPlugins {
     getPluginById(id: string): InternalPlugin | undefined;
 }
 
+// Frontmatter keys that tie an atomic note to its Pebble item, wherever the file lives.
+const PEBBLE_ID_KEY = 'pebble-id';
+const PEBBLE_HASH_KEY = 'pebble-hash';
+const PEBBLE_LOCAL_HASH_KEY = 'pebble-local-hash';
+const PEBBLE_CONFLICT_KEY = 'pebble-conflict';
+const PEBBLE_PROFILE_KEY = 'pebble-profile';
+const PEBBLE_TYPE_KEY = 'pebble-type'; // Only set for items other than notes, which are never pushed
+const PEBBLE_REWRITES_KEY = 'pebble-rewrites'; // Vault-only links written by the importer, mapped to the text they replaced
+
 const INVALID_FILENAME_CHARS = /[\\/:*?"<>|]/g;
 
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
 const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 
 const sanitizeFileName = (value: string): string => value.replace(INVALID_FILENAME_CHARS, '-').replace(/\s+/g, ' ').trim();
 
+// Keeps typical vault paths under the 260 character Windows limit.
+const MAX_FILENAME_LENGTH = 120;
+
+// Most filesystems allow 255 bytes per name, and non-Latin titles take up to four bytes a character.
+// The rest is left for collision suffixes like ` (1a2b3c4d) 12` and the extension.
+const MAX_FILENAME_BYTES = 255 - 32;
+
+/** Cuts the value to whole characters that fit in the given number of UTF-8 bytes. */
+const truncateToBytes = (value: string, maxBytes: number): string => {
+    const encoder = new TextEncoder();
+    if (encoder.encode(value).length <= maxBytes) return value;
+    let result = '';
+    let bytes = 0;
+    for (const char of value) {
+        bytes += encoder.encode(char).length;
+        if (bytes > maxBytes) break;
+        result += char;
+    }
+    return result;
+};
+
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+/** Makes a rendered filename valid on every platform: no separators, control characters, reserved names or trailing dots. */
+const toSafeFileName = (value: string): string => {
+    const printable = [...value].filter(char => char.charCodeAt(0) >= 0x20 && char.charCodeAt(0) !== 0x7f).join('');
+    let name = sanitizeFileName(printable);
+    const cut = truncateToBytes([...name].slice(0, MAX_FILENAME_LENGTH).join(''), MAX_FILENAME_BYTES);
+    if (cut !== name) {
+        const boundary = cut.lastIndexOf(' ');
+        name = boundary > cut.length / 2 ? cut.substring(0, boundary) : cut;
+    }
+    name = name.replace(/^\.+/, '').replace(/[\s.]+$/, '');
+    if (WINDOWS_RESERVED_NAMES.test(name)) name = `${name}-note`;
+    return name || 'Pebble Note';
+};
+
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const stripFrontmatter = (value: string): string => value.replace(FRONTMATTER_REGEX, '');
+
 const hashContent = (value: string): string => {
     if (!value) return '0';
     let hash = 0;
@@ -33,18 +109,104 @@ const hashContent = (value: string): string => {
     return (hash >>> 0).toString(16);
 };
 
-interface PebbleNote {
-    type: string;
-    markdown: string;
-    createdAt: string;
-    tags?: string[];
-    id?: string;
-    uuid?: string;
-    key?: string;
-}
-
 interface PebbleSyncResponse {
     items: PebbleNote[];
+    nextCursor?: string | null;
+    hasMore?: boolean;
+    // IDs of items deleted or archived on the server, as an alternative to flagged items
+    deleted?: unknown[];
+    archived?: unknown[];
+}
+
+type ImportOutcome = 'created' | 'updated' | 'skipped-duplicate' | 'skipped-existing' | 'kept-local' | 'conflict' | 'daily-entry' | 'task';
+
+type SyncState = 'untracked' | 'unchanged' | 'server-changed' | 'vault-changed' | 'conflict';
+
+type ConflictStrategy = 'conflict-copy' | 'merge-sections';
+
+type CollisionStrategy = 'number' | 'id' | 'seconds';
+
+interface ImportResult {
+    outcome: ImportOutcome;
+    file?: TFile;
+}
+
+// Planned outcomes that write to the vault and can be deselected in the preview.
+const PLANNED_WRITES = new Set<ImportOutcome>(['created', 'updated', 'conflict', 'daily-entry', 'task']);
+
+// Vault file used to move the import history between devices.
+const HISTORY_EXPORT_PATH = 'pebble-sync-history.json';
+
+interface NotePlan {
+    note: PebbleNote;
+    action: ImportOutcome;
+    path: string; // Atomic note path, the first periodic note for daily entries, or where a task goes
+    dailyPaths: string[]; // Periodic notes that will link to the atomic note
+    toTaskFile?: boolean; // Tasks only
+    existingFile?: TFile;
+    currentContent?: string; // Only read for previews
+    newContent: string;
+    dedupeKey: string;
+    itemId: string;
+    noteMoment: moment.Moment;
+    rule?: RoutingRule;
+    templateData: TemplateData;
+    title: string; // Numbered when taken, for the filename and alias; templates get the title as it came
+    template: string;
+    targetFolder: string;
+    serverHash: string;
+    rewrites: Map<string, string>; // Links added by auto-linking, mapped to the text they replaced
+}
+
+type AckAction = 'keep' | 'mark-synced' | 'delete';
+
+type InvalidTimestampAction = 'error' | 'review';
+
+interface ImportStats {
+    created: number;
+    updated: number;
+    dailyEntries: number;
+    tasks: number;
+    skippedDuplicates: number;
+    skippedExisting: number;
+    keptLocal: number;
+    conflicts: string[];
+    attachmentFailures: string[];
+    ignoredTypes: string[]; // Type of every item left out because its type is unknown or disabled
+    items: RunItem[]; // Every item of the run, for the API result
+    removed: number; // Notes trashed, archived or flagged because they were removed on the server
+    pendingRemovals: PendingRemoval[]; // Removed on the server but edited in the vault, so the user is asked
+    failed: number;
+}
+
+interface PushCandidate {
+    file: TFile;
+    content: string;
+    tags: string[];
+    itemId?: string;
+}
+
+interface ImportContext {
+    profile: SyncProfile;
+    dedupe: DedupeIndex;
+    source: SyncSource;
+    force: boolean;
+    dryRun: boolean;
+    targetFolder: string;
+    triggerTags: Set<string>;
+    notesById: Map<string, TFile>;
+    claimedPaths: Map<string, string>; // Paths written or planned in this run, mapped to the item identity
+    claimedTitles: Map<string, string>; // Lowercased `folder/title` of notes written or planned in this run, mapped to the item identity
+    attachmentsByHash: Map<string, TFile> | null; // Built on first download
+    attachmentFailures: string[];
+    linker: Linker | null; // Built on first use
+    indexedNotes: IndexedNote[]; // Written since the tag indexes were last updated
+}
+
+interface IndexedNote {
+    file: TFile;
+    time: string;
+    tags: string[];
 }
 
 interface TemplateData {
@@ -52,118 +214,476 @@ interface TemplateData {
     date: string;
     time: string;
     fullDateTime: string;
+    title: string;
     tags: string[];
+    note: PebbleNote;
+    [field: string]: unknown;
 }
 
-interface DailyConfig {
-    folder: string;
-    format: string;
-    template: string;
-}
-
-interface PebbleSyncSettings {
-    apiUrl: string;
-    apiKey: string;
+/** Fields removed from the settings that are still read once to migrate them. */
+interface LegacySettings {
     importedKeys: string[];
     maxImportedKeys: number;
+    // Moved into the default profile
+    apiUrl: string;
+    apiKey: string;
+    syncCursors: Record<string, string>;
     autoRunOnStartup: boolean;
     autoRunInterval: number;
-    atomicNotesEnabled: boolean;
     atomicNotesFolder: string;
+    atomicNotesTemplate: string;
+    // Moved into the daily entry of periodicNotes
+    sectionHeading: string;
+    dailyFolder: string;
+    dailyFileNameFormat: string;
+    // Moved into history.json
+    syncHistory: SyncRun[];
+    // Moved into daily-entries.json; older versions stored a single path per note
+    dailyEntryIndex: Record<string, string | string[]>;
+}
+
+interface PebbleSyncSettings {
+    profiles: SyncProfile[];
+    incrementalSync: boolean;
+    syncPageSize: number;
+    acknowledgeImports: boolean;
+    ackAction: AckAction;
+    atomicNotesEnabled: boolean;
     atomicNotesTags: string;
     atomicNotesDefaultTag: string;
-    atomicNotesTemplate: string;
+    titleStrategy: TitleStrategy;
+    titleAlias: boolean;
+    fileNameTemplate: string;
+    fileNameCollision: CollisionStrategy;
     overwriteExisting: boolean;
+    routingRules: RoutingRule[];
+    sourceTimezone: string;
+    vaultTimezone: string;
+    dayStartsAt: string;
+    invalidTimestampAction: InvalidTimestampAction;
+    reviewFolder: string;
+    tasksEnabled: boolean;
+    taskDestination: TaskDestination;
+    taskFile: string;
+    taskTemplate: string;
+    bookmarksEnabled: boolean;
+    bookmarkFolder: string;
+    bookmarkTemplate: string;
+    checklistsEnabled: boolean;
+    checklistFolder: string;
+    checklistTemplate: string;
+    downloadAttachments: boolean;
+    attachmentsFolder: string;
+    attachmentMaxSizeMB: number;
+    conflictStrategy: ConflictStrategy;
+    deletedPolicy: RemovalPolicy;
+    archivedPolicy: RemovalPolicy;
+    archiveFolder: string;
+    removedEntryAction: RemovedEntryAction;
+    autoLinkEnabled: boolean;
+    autoLinkMinLength: number;
+    autoLinkExclusions: string;
+    tagIndexEnabled: boolean;
+    tagIndexFolder: string;
+    pushEnabled: boolean;
+    pushAfterImport: boolean;
+    pushNewInFolder: boolean;
+    pushTag: string;
     linkBackToDailyNote: boolean;
-    sectionHeading: string;
+    periodicNotes: Record<NotePeriod, PeriodicNoteSettings>;
+    dailyEntryStyle: DailyEntryStyle;
+    cleanUpDailyEntries: boolean;
     useDailyNotesCore: boolean;
-    dailyFolder: string;
-    dailyFileNameFormat: string;
+    usePeriodicNotesPlugin: boolean;
 }
 
+// The template shipped before the template engine; it produced invalid YAML for tags with colons or quotes.
+const LEGACY_DEFAULT_TEMPLATE = `---
+created: {{fullDateTime}}
+tags: [pebble, {{tags}}]
+---
+
+{{content}}`;
+
+// The filename template before the title strategies; vaults set up with it keep their dated filenames.
+const LEGACY_FILE_NAME_TEMPLATE = '{{title}} {{date:dddd, MMMM Do YYYY HH-mm}}';
+
+// Used for "daily note only" routes that don't set their own template.
+const DEFAULT_DAILY_ENTRY_TEMPLATE = '**{{time}}** {{content}}';
+
+const DEFAULT_ATOMIC_NOTES_TEMPLATE = `---
+created: {{fullDateTime}}
+tags: [pebble{{#each tags}}, {{this | yaml}}{{/each}}]
+---
+
+{{content}}`;
+
+// Defaults for the per-profile settings of a new profile.
+const DEFAULT_PROFILE_FIELDS: Partial<SyncProfile> = {
+    atomicNotesFolder: 'Pebble',
+    atomicNotesTemplate: DEFAULT_ATOMIC_NOTES_TEMPLATE,
+};
+
 const DEFAULT_SETTINGS: PebbleSyncSettings = {
     // --- General Settings ---
-    apiUrl: '',
-    apiKey: '',
-    importedKeys: [],
-    maxImportedKeys: 5000,
-
-    // --- Automation ---
-    autoRunOnStartup: false,
-    autoRunInterval: 0, // In minutes, 0 disables
+    profiles: [], // Endpoint, folder, template and schedule per Pebble deployment
+    incrementalSync: true,
+    syncPageSize: 100,
+    acknowledgeImports: false,
+    ackAction: 'mark-synced',
 
     // --- Atomic Notes ---
     atomicNotesEnabled: true,
-    atomicNotesFolder: 'Pebble',
     atomicNotesTags: 'idea,thought',
     atomicNotesDefaultTag: 'pebble',
-    atomicNotesTemplate:
-        `---
-created: {{fullDateTime}}
-tags: [pebble, {{tags}}]
----
-
-{{content}}`,
+    titleStrategy: 'auto',
+    titleAlias: true, // Store the title in the `aliases` frontmatter
+    fileNameTemplate: '{{title}}',
+    fileNameCollision: 'number',
     overwriteExisting: false,
+    routingRules: [],
+
+    // --- Dates ---
+    sourceTimezone: '', // For timestamps without an offset; empty uses the device's time zone
+    vaultTimezone: '', // For note dates and filenames; empty uses the device's time zone
+    dayStartsAt: '00:00', // Captures before this time count toward the previous day
+    invalidTimestampAction: 'error',
+    reviewFolder: 'Pebble/Review',
+
+    // --- Other Item Types ---
+    tasksEnabled: true,
+    taskDestination: 'daily',
+    taskFile: 'Pebble/Tasks.md',
+    taskTemplate: DEFAULT_TASK_TEMPLATE,
+    bookmarksEnabled: true,
+    bookmarkFolder: 'Pebble/Bookmarks',
+    bookmarkTemplate: DEFAULT_BOOKMARK_TEMPLATE,
+    checklistsEnabled: true,
+    checklistFolder: 'Pebble/Checklists',
+    checklistTemplate: DEFAULT_CHECKLIST_TEMPLATE,
+
+    // --- Attachments ---
+    downloadAttachments: false,
+    attachmentsFolder: '', // Empty uses Obsidian's attachment location
+    attachmentMaxSizeMB: 10,
+    conflictStrategy: 'conflict-copy',
+
+    // --- Server Deletions ---
+    deletedPolicy: 'flag',
+    archivedPolicy: 'flag',
+    archiveFolder: 'Pebble/Archive', // Used by the move policy
+    removedEntryAction: 'strike',
+
+    // --- Linking ---
+    autoLinkEnabled: false,
+    autoLinkMinLength: 4, // Shorter names and aliases are never linked
+    autoLinkExclusions: '', // Names and aliases that are never linked, one per line or comma separated
+    tagIndexEnabled: false,
+    tagIndexFolder: 'Pebble/Tags',
+
+    // --- Push to Pebble ---
+    pushEnabled: false,
+    pushAfterImport: true,
+    pushNewInFolder: true,
+    pushTag: 'pebble-push',
 
     // --- Daily Note Integration ---
     linkBackToDailyNote: true,
-    sectionHeading: '## Pebble Imports',
+    periodicNotes: createPeriodicNoteSettings(), // Heading, fallback folder and format per period
+    dailyEntryStyle: 'embed',
+    cleanUpDailyEntries: true,
     useDailyNotesCore: true,
-    dailyFolder: '', // Fallback
-    dailyFileNameFormat: 'YYYY-MM-DD', // Fallback
+    usePeriodicNotesPlugin: true,
 };
 
 export default class PebbleSyncPlugin extends Plugin {
     settings!: PebbleSyncSettings;
-    intervalId: number | null = null;
+    intervalIds: number[] = [];
+    events = new Events();
+    api: PebbleSyncApi = createApi(this.events, options => this.importFromApi(options));
+    apiCalls = 0;
+    sync = new SyncCoordinator(() => {
+        this.updateStatusBar();
+        this.events.trigger('sync-state-changed');
+    });
+    dedupeIndexes = new Map<string, DedupeIndex>();
+    profileCommands = new Set<string>();
+    legacyImportedKeys: string[] = [];
+    syncHistory: SyncRun[] = []; // Kept in history.json
+    dailyEntryIndex!: DailyEntryIndex;
+    legacyDailyEntries: Record<string, string | string[]> = {};
+    statusBarEl: HTMLElement | null = null;
 
     async onload() {
         await this.loadSettings();
+        await this.loadDedupeIndex();
+        await this.loadSyncHistory();
+        await this.loadDailyEntryIndex();
+
+        this.registerView(VIEW_TYPE_SYNC_STATUS, leaf => new SyncStatusView(leaf, this));
 
         this.addRibbonIcon('sync', 'Import new notes', () => this.importNow(false));
 
-        this.addCommand({ id: 'import-now', name: 'Import new notes', callback: () => { void this.importNow(false); } });
+        this.statusBarEl = this.addStatusBarItem();
+        this.statusBarEl.addClass('mod-clickable');
+        this.statusBarEl.addEventListener('click', () => { void this.activateStatusView(); });
+        this.updateStatusBar();
+
+        this.addCommand({ id: 'import-now', name: 'Import all profiles', callback: () => { void this.importNow(false); } });
         this.addCommand({ id: 'force-import', name: 'Force re-import (overwrite existing)', callback: () => { void this.importNow(true); } });
+        this.addCommand({ id: 'preview-import', name: 'Preview import', callback: () => { void this.previewImport(); } });
+        this.addCommand({ id: 'import-export-file', name: 'Import from export file', callback: () => this.chooseExportFile() });
+        this.settings.profiles.forEach(profile => this.addProfileCommand(profile));
+        this.addCommand({ id: 'open-status', name: 'Open sync status', callback: () => { void this.activateStatusView(); } });
+        this.addCommand({
+            id: 'cancel-sync',
+            name: 'Cancel running sync',
+            checkCallback: (checking) => {
+                if (!this.sync.isRunning) return false;
+                if (!checking && this.sync.cancel()) new Notice('Cancelling sync...');
+                return true;
+            }
+        });
+        this.addCommand({
+            id: 'push-now',
+            name: 'Push local changes to the server',
+            checkCallback: (checking) => {
+                if (!this.settings.pushEnabled) return false;
+                if (!checking) void this.pushNow();
+                return true;
+            }
+        });
 
         this.addSettingTab(new PebbleSyncSettingTab(this.app, this));
 
+        this.registerObsidianProtocolHandler('pebble-sync', params => this.handleProtocol(params));
+
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => { void this.onFileRenamed(file, oldPath); }));
+        this.registerEvent(this.app.vault.on('delete', file => { void this.onFileDeleted(file); }));
+
         this.setupAutoRun();
-        if (this.settings.autoRunOnStartup) {
+        const startupProfiles = this.settings.profiles.filter(profile => profile.autoRunOnStartup);
+        if (startupProfiles.length > 0) {
             // Delay startup import slightly to allow Obsidian to fully load
-            setTimeout(() => { void this.importNow(false); }, 2000);
+            setTimeout(() => { void this.autoImport(startupProfiles.map(profile => profile.id)); }, 2000);
         }
     }
 
     onunload() {
-        if (this.intervalId) {
-            window.clearInterval(this.intervalId);
-        }
+        this.sync.cancel();
+        this.intervalIds.forEach(id => window.clearInterval(id));
     }
 
     setupAutoRun() {
-        if (this.intervalId) {
-            window.clearInterval(this.intervalId);
-        }
-        if (this.settings.autoRunInterval > 0) {
-            const intervalMillis = this.settings.autoRunInterval * 60 * 1000;
-            this.intervalId = window.setInterval(() => { void this.importNow(false); }, intervalMillis);
-            this.registerInterval(this.intervalId);
+        this.intervalIds.forEach(id => window.clearInterval(id));
+        this.intervalIds = [];
+        for (const profile of this.settings.profiles) {
+            if (profile.autoRunInterval > 0) {
+                const intervalMillis = profile.autoRunInterval * 60 * 1000;
+                const intervalId = window.setInterval(() => { void this.autoImport([profile.id]); }, intervalMillis);
+                this.registerInterval(intervalId);
+                this.intervalIds.push(intervalId);
+            }
         }
     }
 
+    /**
+     * Registers "Import now" for a profile. Commands can't be removed on every supported Obsidian
+     * version, so the command of a deleted profile just stops showing up in the palette.
+     */
+    addProfileCommand(profile: SyncProfile) {
+        const id = `import-profile-${profile.id}`;
+        if (this.profileCommands.has(id)) return;
+        this.profileCommands.add(id);
+        this.addCommand({
+            id,
+            name: `Import now: ${profile.name}`,
+            checkCallback: (checking) => {
+                const current = this.getProfile(profile.id);
+                if (!current) return false;
+                if (!checking) void this.importNow(false, false, [current]);
+                return true;
+            }
+        });
+    }
+
+    getProfile(id: string): SyncProfile | undefined {
+        return this.settings.profiles.find(profile => profile.id === id);
+    }
+
+    /** Prefixes a message with the profile name once there is more than one profile. */
+    profileMessage(profile: SyncProfile, message: string): string {
+        return this.settings.profiles.length > 1 ? `${profile.name}: ${message}` : message;
+    }
+
+    async addProfile(): Promise<SyncProfile> {
+        const profile = createProfile({ ...DEFAULT_PROFILE_FIELDS, name: `Profile ${this.settings.profiles.length + 1}` });
+        this.settings.profiles.push(profile);
+        await this.saveSettings();
+        this.addProfileCommand(profile);
+        return profile;
+    }
+
+    async deleteProfile(profile: SyncProfile) {
+        this.settings.profiles = this.settings.profiles.filter(existing => existing !== profile);
+        this.dedupeIndexes.delete(profile.id);
+        await this.saveSettings();
+        this.setupAutoRun();
+    }
+
     async loadSettings() {
         const loadedData: unknown = await this.loadData();
         this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData as Partial<PebbleSyncSettings>);
+        // Only fresh installs get the new default, so existing notes aren't imported under a second name.
+        if (loadedData && (loadedData as Partial<PebbleSyncSettings>).fileNameTemplate === undefined) {
+            this.settings.fileNameTemplate = LEGACY_FILE_NAME_TEMPLATE;
+        }
+        // Copy the rules so edits never touch DEFAULT_SETTINGS, and fill in fields added since they were saved.
+        this.settings.routingRules = (Array.isArray(this.settings.routingRules) ? this.settings.routingRules : [])
+            .map(rule => ({ ...createRoutingRule(), ...rule }));
+        // Older versions kept the dedupe history in data.json; loadDedupeIndex moves it to its own file.
+        const legacy = this.settings as unknown as Partial<LegacySettings>;
+
+        const periodicNotes = createPeriodicNoteSettings();
+        for (const period of NOTE_PERIODS) {
+            periodicNotes[period] = { ...periodicNotes[period], ...this.settings.periodicNotes?.[period] };
+        }
+        if (legacy.sectionHeading !== undefined) periodicNotes.day.heading = legacy.sectionHeading;
+        if (legacy.dailyFolder !== undefined) periodicNotes.day.folder = legacy.dailyFolder;
+        if (legacy.dailyFileNameFormat !== undefined) periodicNotes.day.format = legacy.dailyFileNameFormat;
+        this.settings.periodicNotes = periodicNotes;
+        this.legacyImportedKeys = Array.isArray(legacy.importedKeys) ? legacy.importedKeys : [];
+        // Moved to history.json by loadSyncHistory.
+        this.syncHistory = Array.isArray(legacy.syncHistory) ? [...legacy.syncHistory] : [];
+        // Moved to daily-entries.json by loadDailyEntryIndex.
+        this.legacyDailyEntries = legacy.dailyEntryIndex ?? {};
+
+        // Settings from before profiles become the default profile.
+        if (!Array.isArray(this.settings.profiles) || this.settings.profiles.length === 0) {
+            this.settings.profiles = [createProfile({
+                ...DEFAULT_PROFILE_FIELDS,
+                id: DEFAULT_PROFILE_ID,
+                name: 'Default',
+                ...(legacy.apiUrl !== undefined && { apiUrl: legacy.apiUrl }),
+                ...(legacy.apiKey !== undefined && { apiKey: legacy.apiKey }),
+                ...(legacy.syncCursors !== undefined && { syncCursors: legacy.syncCursors }),
+                ...(legacy.autoRunOnStartup !== undefined && { autoRunOnStartup: legacy.autoRunOnStartup }),
+                ...(legacy.autoRunInterval !== undefined && { autoRunInterval: legacy.autoRunInterval }),
+                ...(legacy.atomicNotesFolder !== undefined && { atomicNotesFolder: legacy.atomicNotesFolder }),
+                ...(legacy.atomicNotesTemplate !== undefined && { atomicNotesTemplate: legacy.atomicNotesTemplate }),
+            })];
+        }
+        this.settings.profiles = this.settings.profiles.map(profile => createProfile({ ...DEFAULT_PROFILE_FIELDS, ...profile, syncCursors: { ...profile.syncCursors } }));
+        for (const profile of this.settings.profiles) {
+            if (profile.atomicNotesTemplate === LEGACY_DEFAULT_TEMPLATE) {
+                profile.atomicNotesTemplate = DEFAULT_ATOMIC_NOTES_TEMPLATE;
+            }
+        }
+
+        delete legacy.importedKeys;
+        delete legacy.maxImportedKeys;
+        delete legacy.apiUrl;
+        delete legacy.apiKey;
+        delete legacy.syncCursors;
+        delete legacy.autoRunOnStartup;
+        delete legacy.autoRunInterval;
+        delete legacy.atomicNotesFolder;
+        delete legacy.atomicNotesTemplate;
+        delete legacy.sectionHeading;
+        delete legacy.dailyFolder;
+        delete legacy.dailyFileNameFormat;
+        delete legacy.syncHistory;
+        delete legacy.dailyEntryIndex;
+    }
+
+    async loadDedupeIndex() {
+        if (this.legacyImportedKeys.length === 0) return;
+        const profile = this.getProfile(DEFAULT_PROFILE_ID) ?? this.settings.profiles[0];
+        try {
+            const dedupe = await this.getDedupeIndex(profile);
+            dedupe.addLegacy(this.legacyImportedKeys);
+            await dedupe.save();
+            this.legacyImportedKeys = [];
+        } catch (error) {
+            console.error('Pebble Sync: Failed to migrate the import history', error);
+            return;
+        }
+        await this.saveSettings();
+    }
+
+    /** Reads the run history, or writes the history carried over from data.json when there is no file yet. */
+    async loadSyncHistory() {
+        const path = this.getPluginFilePath('history.json');
+        try {
+            if (await this.app.vault.adapter.exists(path)) {
+                this.syncHistory = parseHistory(await this.app.vault.adapter.read(path));
+            } else if (this.syncHistory.length > 0) {
+                await this.saveSyncHistory();
+                await this.saveSettings();
+            }
+        } catch (error) {
+            console.error('Pebble Sync: Failed to read the sync history', error);
+        }
+    }
+
+    async saveSyncHistory() {
+        await this.app.vault.adapter.write(this.getPluginFilePath('history.json'), serializeHistory(this.syncHistory));
+    }
+
+    /** Reads the periodic notes linking to each imported note, adding the entries carried over from data.json. */
+    async loadDailyEntryIndex() {
+        this.dailyEntryIndex = new DailyEntryIndex(this.app.vault.adapter, this.getPluginFilePath('daily-entries.json'));
+        try {
+            await this.dailyEntryIndex.load();
+            if (Object.keys(this.legacyDailyEntries).length === 0) return;
+            this.dailyEntryIndex.merge(this.legacyDailyEntries);
+            await this.dailyEntryIndex.save();
+            this.legacyDailyEntries = {};
+            await this.saveSettings();
+        } catch (error) {
+            console.error('Pebble Sync: Failed to read the daily note entries', error);
+        }
+    }
+
+    getPluginFilePath(fileName: string): string {
+        const pluginDir = this.manifest.dir ?? normalizePath(`${this.app.vault.configDir}/plugins/${this.manifest.id}`);
+        return normalizePath(`${pluginDir}/${fileName}`);
+    }
+
+    /**
+     * Loads a profile's dedupe history on first use. The default profile keeps the file name from
+     * before profiles existed. A file that can't be read is never replaced, so the error is thrown.
+     */
+    async getDedupeIndex(profile: SyncProfile): Promise<DedupeIndex> {
+        const cached = this.dedupeIndexes.get(profile.id);
+        if (cached) return cached;
+
+        const fileName = profile.id === DEFAULT_PROFILE_ID ? 'imported.json' : `imported-${profile.id}.json`;
+        const dedupe = new DedupeIndex(this.app.vault.adapter, this.getPluginFilePath(fileName));
+        await dedupe.load();
+        this.dedupeIndexes.set(profile.id, dedupe);
+        return dedupe;
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
+        // Keep the legacy keys in data.json until they have been moved to the history file.
+        const data = this.legacyImportedKeys.length > 0 ? { ...this.settings, importedKeys: this.legacyImportedKeys } : this.settings;
+        await this.saveData(data);
     }
 
-    getDailyConfig(): DailyConfig {
+    /**
+     * Where the notes of a period live: the Periodic Notes plugin wins when it manages the period,
+     * then the daily notes core plugin for daily notes, then the plugin's own settings.
+     */
+    getPeriodicConfig(period: NotePeriod = 'day'): PeriodicNoteConfig {
         const s = this.settings;
-        if (s.useDailyNotesCore && (this.app as unknown as { internalPlugins: InternalPlugins }).internalPlugins?.plugins?.['daily-notes']?.enabled) {
+        if (s.usePeriodicNotesPlugin) {
+            try {
+                const pluginConfig = readPeriodicNotesConfig(this.app, period);
+                if (pluginConfig) return pluginConfig;
+            } catch (e) { console.error("Pebble Sync: Error reading Periodic Notes config", e); }
+        }
+        if (period === 'day' && s.useDailyNotesCore && (this.app as unknown as { internalPlugins: InternalPlugins }).internalPlugins?.plugins?.['daily-notes']?.enabled) {
             try {
                 const coreConfig = (this.app as unknown as { internalPlugins: InternalPlugins }).internalPlugins.getPluginById('daily-notes')?.instance?.options;
                 return {
@@ -171,173 +691,1499 @@ export default class PebbleSyncPlugin extends Plugin {
                     format: coreConfig?.format || 'YYYY-MM-DD',
                     template: coreConfig?.template?.trim() || ''
                 };
-            } catch (e) { console.error("Pebble Sync: Error reading Daily Notes core config", e); }
+            } catch (e) { console.error("Pebble Sync: Error reading Daily Notes core config", e); }
+        }
+        return {
+            folder: s.periodicNotes[period].folder || '',
+            format: s.periodicNotes[period].format || DEFAULT_PERIOD_FORMATS[period],
+            template: s.periodicNotes[period].template.trim().replace(/\.md$/, '')
+        };
+    }
+
+    /** Periods whose notes imports are added to. Daily notes are used when none is enabled. */
+    getPeriodicTargets(): NotePeriod[] {
+        const periods = NOTE_PERIODS.filter(period => this.settings.periodicNotes[period].enabled);
+        return periods.length > 0 ? periods : ['day'];
+    }
+
+    buildTemplateData(note: PebbleNote, noteMoment: moment.Moment, title: string): TemplateData {
+        return {
+            // Raw server fields first, so the computed values below always win.
+            ...note,
+            note,
+            content: note.markdown,
+            date: this.getNoteDay(noteMoment).format('YYYY-MM-DD'),
+            time: noteMoment.format('HH:mm'),
+            fullDateTime: noteMoment.format('YYYY-MM-DD HH:mm'),
+            title,
+            tags: (note.tags || []).map(tag => String(tag).replace(/^#/, '').trim()).filter(Boolean)
+        };
+    }
+
+    processTemplate(template: string, data: TemplateData, noteMoment: moment.Moment): string {
+        return renderTemplate(template, { data, moment: noteMoment, day: this.getNoteDay(noteMoment) });
+    }
+
+    /**
+     * Validates the settings and prepares the state shared by every item of one import run.
+     * Shows a notice and returns null when the importer isn't configured. Items come from the
+     * profile's API unless another source is given.
+     */
+    async createImportContext(profile: SyncProfile, force: boolean, dryRun = false, source?: SyncSource): Promise<ImportContext | null> {
+        const settings = this.settings;
+
+        if (!source) {
+            const apiUrl = this.normalizeApiUrl(profile.apiUrl);
+            if (!apiUrl) {
+                new Notice(this.profileMessage(profile, 'Configure a valid API URL before syncing'));
+                return null;
+            }
+
+            if (!profile.apiKey) {
+                new Notice(this.profileMessage(profile, 'API key is required'));
+                return null;
+            }
+            source = new HttpSource(apiUrl, profile.apiKey, (request, retries) => this.request(request, retries));
+        }
+
+        if (!settings.atomicNotesEnabled) {
+            new Notice('Enable atomic notes to run the importer');
+            return null;
+        }
+
+        const targetFolder = (profile.atomicNotesFolder || '').trim();
+        if (!targetFolder) {
+            new Notice(this.profileMessage(profile, 'Set a folder for atomic notes in the settings'));
+            return null;
+        }
+
+        const templateError = validateTemplate(profile.atomicNotesTemplate);
+        if (templateError) {
+            new Notice(this.profileMessage(profile, `Atomic note template is invalid. ${templateError}`));
+            return null;
+        }
+
+        const fileNameError = validateTemplate(settings.fileNameTemplate);
+        if (fileNameError) {
+            new Notice(`Filename template is invalid. ${fileNameError}`);
+            return null;
+        }
+
+        const invalidRule = settings.routingRules.find(rule => rule.enabled && validateRoutingRule(rule));
+        if (invalidRule) {
+            new Notice(`Routing rule "${invalidRule.name}" is invalid. ${validateRoutingRule(invalidRule)}`);
+            return null;
+        }
+
+        let dedupe: DedupeIndex;
+        try {
+            dedupe = await this.getDedupeIndex(profile);
+        } catch (error) {
+            console.error('Pebble Sync: Failed to read the import history', error);
+            new Notice(this.profileMessage(profile, `Could not read the import history. ${this.normalizeError(error)}`));
+            return null;
+        }
+
+        return {
+            profile,
+            dedupe,
+            source,
+            force,
+            dryRun,
+            targetFolder,
+            triggerTags: new Set((settings.atomicNotesTags || '')
+                .split(',')
+                .map(tag => tag.trim().toLowerCase())
+                .filter(Boolean)),
+            notesById: this.buildPebbleIdIndex(profile),
+            claimedPaths: new Map(),
+            claimedTitles: new Map(),
+            attachmentsByHash: null,
+            attachmentFailures: [],
+            linker: null,
+            indexedNotes: []
+        };
+    }
+
+    createImportStats(context: ImportContext): ImportStats {
+        return { created: 0, updated: 0, dailyEntries: 0, tasks: 0, skippedDuplicates: 0, skippedExisting: 0, keptLocal: 0, conflicts: [], attachmentFailures: context.attachmentFailures, ignoredTypes: [], items: [], removed: 0, pendingRemovals: [], failed: 0 };
+    }
+
+    recordResult(stats: ImportStats, result: ImportResult) {
+        if (result.outcome === 'created') stats.created++;
+        else if (result.outcome === 'updated') stats.updated++;
+        else if (result.outcome === 'daily-entry') stats.dailyEntries++;
+        else if (result.outcome === 'task') stats.tasks++;
+        else if (result.outcome === 'skipped-duplicate') stats.skippedDuplicates++;
+        else if (result.outcome === 'kept-local') stats.keptLocal++;
+        else if (result.outcome === 'conflict') stats.conflicts.push(result.file?.path ?? '');
+        else stats.skippedExisting++;
+    }
+
+    /** Keeps the items of enabled types, recording the type of every other item in `ignoredTypes`. */
+    filterNotes(payload: PebbleSyncResponse, ignoredTypes: string[] = []): PebbleNote[] {
+        const notes: PebbleNote[] = [];
+        for (const item of Array.isArray(payload.items) ? payload.items : []) {
+            // Deletions and archives are handled by processRemovals.
+            if (!item || typeof item !== 'object' || getRemovalKind(item)) continue;
+            const type = getItemType(item);
+            if (!this.isItemTypeEnabled(type)) {
+                ignoredTypes.push(type || 'unknown');
+                continue;
+            }
+            const normalized = normalizeItem(item);
+            if (typeof normalized.markdown === 'string') notes.push(normalized);
+        }
+        return notes;
+    }
+
+    isItemTypeEnabled(type: string): boolean {
+        const settings = this.settings;
+        return type === 'note'
+            || (type === 'task' && settings.tasksEnabled)
+            || (type === 'bookmark' && settings.bookmarksEnabled)
+            || (type === 'checklist' && settings.checklistsEnabled);
+    }
+
+    /** Scheduled and startup imports: skipped while offline and silently joined when a sync is running. */
+    async autoImport(profileIds: string[]) {
+        if (!window.navigator.onLine) return;
+        const profiles = profileIds.map(id => this.getProfile(id)).filter((profile): profile is SyncProfile => !!profile);
+        if (profiles.length > 0) await this.importNow(false, true, profiles);
+    }
+
+    /** Imports the given profiles one after another, all of them by default. */
+    async importNow(force = false, auto = false, profiles: SyncProfile[] = this.settings.profiles) {
+        const kind = force ? 'force-import' : 'import';
+        // Profiles a running or waiting import already covers are left to it, unless that covers them all.
+        const remaining = profiles.filter(profile => !this.sync.has(`${kind}:${profile.id}`));
+        const queued = remaining.length > 0 ? remaining : profiles;
+        await this.queueSync(`${kind}:${queued.map(profile => profile.id).join(',')}`, async signal => {
+            for (const profile of queued) {
+                if (signal.aborted) break;
+                await this.runImport(profile, force, signal);
+            }
+        }, auto);
+    }
+
+    /**
+     * Runs a sync through the coordinator, telling the user when it joins or waits for another one.
+     * Never rejects: failures the task doesn't handle itself are reported here.
+     */
+    queueSync(key: string, task: (signal: AbortSignal) => Promise<void>, quiet = false): Promise<void> {
+        if (!quiet && this.sync.has(key)) {
+            new Notice('This sync is already running');
+        } else if (!quiet && this.sync.isRunning) {
+            new Notice('Waiting for the running sync to finish');
+        }
+        return this.sync.run(key, task).catch(error => {
+            if (error instanceof SyncCancelledError) return;
+            console.error(`Pebble Sync: ${key} failed`, error);
+            new Notice(`Pebble Sync: ${this.normalizeError(error)}`);
+        });
+    }
+
+    /** Returns null when the profile isn't set up for importing. */
+    async runImport(profile: SyncProfile, force: boolean, signal: AbortSignal, source?: SyncSource): Promise<SyncResult | null> {
+        const settings = this.settings;
+        const context = await this.createImportContext(profile, force, false, source);
+        if (!context) return null;
+        const { targetFolder } = context;
+
+        const syncNotice = new Notice(this.profileMessage(profile, source ? 'Reading the export file...' : 'Fetching notes...'), 0);
+        const stats = this.createImportStats(context);
+        const run = this.startRun(source ? 'file-import' : force ? 'force-import' : 'import', profile);
+        let importFailed = false;
+        let runError: string | undefined;
+        let result: SyncResult;
+
+        try {
+            // Force mode replays the whole history, so it never starts from the stored cursor.
+            let cursor = settings.incrementalSync && !force ? this.getSyncCursor(profile, context.source.key) : '';
+            let page = 0;
+            let hasMore = true;
+
+            while (hasMore) {
+                const payload = await this.fetchSyncPage(context, cursor);
+                const notes = this.filterNotes(payload, stats.ignoredTypes);
+                const storedIds: string[] = [];
+                let pageFailed = false;
+                page++;
+
+                if (notes.length > 0) {
+                    syncNotice.setMessage(page > 1
+                        ? `Pebble Sync: Importing ${notes.length} notes (page ${page})...`
+                        : `Pebble Sync: Importing ${notes.length} notes...`);
+                    await this.ensureFolder(targetFolder);
+
+                    for (const note of notes) {
+                        // Stop between notes, so the items written so far are still committed below.
+                        if (signal.aborted) {
+                            pageFailed = true;
+                            break;
+                        }
+
+                        let result: ImportResult;
+                        try {
+                            result = await this.importNote(note, context);
+                        } catch (error) {
+                            if (error instanceof SyncCancelledError) {
+                                pageFailed = true;
+                                break;
+                            }
+                            // A bad capture time fails the same way on every retry, so it must not hold back the cursor.
+                            if (!(error instanceof InvalidTimestampError)) pageFailed = true;
+                            console.error('Pebble Sync: Failed to import note', error);
+                            stats.failed++;
+                            await this.recordRunItem(run, stats, note, null, error);
+                            continue;
+                        }
+
+                        this.recordResult(stats, result);
+                        await this.recordRunItem(run, stats, note, result);
+
+                        // Anything already present in the vault is safe to acknowledge, failed writes never are.
+                        const itemId = this.getItemId(note);
+                        if (itemId) storedIds.push(itemId);
+                    }
+                }
+
+                if (!signal.aborted) {
+                    await this.processRemovals(getRemovals(payload), context, stats);
+                }
+
+                if (settings.acknowledgeImports && storedIds.length > 0 && !signal.aborted) {
+                    await this.acknowledgeItems(context, storedIds);
+                }
+
+                // Only advance the cursor once every item of the page has been written or failed for good.
+                const nextCursor = typeof payload.nextCursor === 'string' ? payload.nextCursor : '';
+                await this.commitPage(context, settings.incrementalSync && !pageFailed ? nextCursor : '');
+                throwIfCancelled(signal);
+
+                hasMore = !pageFailed && payload.hasMore === true && !!nextCursor && nextCursor !== cursor;
+                cursor = nextCursor;
+            }
+
+            syncNotice.setMessage(this.formatImportSummary(stats));
+            importFailed = stats.failed > 0;
+            this.confirmRemovals(stats.pendingRemovals);
+        } catch (error) {
+            console.error('Pebble Sync import error', error);
+            runError = this.normalizeError(error);
+            syncNotice.setMessage(`Pebble Sync: ${runError}`);
+            importFailed = true;
+        } finally {
+            if (!importFailed) {
+                void setTimeout(() => syncNotice.hide(), 5000);
+            }
+            result = await this.finishRun(run, this.formatImportSummary(stats), runError, stats.items);
+        }
+
+        // Pull first so server-side edits are reconciled before local ones are sent.
+        if (!importFailed && !source && settings.pushEnabled && settings.pushAfterImport) {
+            await this.runPush(profile, signal);
+        }
+        return result;
+    }
+
+    /**
+     * Fetches every pending page and plans the import without touching the vault, then lets
+     * the user pick which items to apply.
+     */
+    async previewImport() {
+        const profiles = this.settings.profiles;
+        if (profiles.length === 1) {
+            await this.queueSync(`preview:${profiles[0].id}`, () => this.runPreview(profiles[0]));
+            return;
+        }
+        new ProfileSuggestModal(this.app, profiles, profile => { void this.queueSync(`preview:${profile.id}`, () => this.runPreview(profile)); }).open();
+    }
+
+    /** Imports a Pebble export from the vault or the device, through the same pipeline as a sync. */
+    chooseExportFile() {
+        const profiles = this.settings.profiles;
+        const chooseFile = (profile: SyncProfile) => new ExportFileSuggestModal(this.app, (name, data) => this.importExportFile(profile, name, data)).open();
+        if (profiles.length === 1) chooseFile(profiles[0]);
+        else new ProfileSuggestModal(this.app, profiles, chooseFile).open();
+    }
+
+    async importExportFile(profile: SyncProfile, name: string, data: ArrayBuffer) {
+        let source: ExportFileSource;
+        try {
+            source = await ExportFileSource.load(name, data);
+        } catch (error) {
+            console.error(`Pebble Sync: Failed to read ${name}`, error);
+            new Notice(`Could not read ${name}: ${this.normalizeError(error)}`);
+            return;
+        }
+        await this.queueSync(`file-import:${profile.id}`, async signal => { await this.runImport(profile, false, signal, source); });
+    }
+
+    /** Fetches every pending page and plans each item without touching the vault. */
+    async planPendingImport(context: ImportContext, notice?: Notice): Promise<{ plans: NotePlan[]; removals: Removal[]; cursor: string }> {
+        let cursor = this.settings.incrementalSync && !context.force ? this.getSyncCursor(context.profile, context.source.key) : '';
+        let hasMore = true;
+        const notes: PebbleNote[] = [];
+        const removals: Removal[] = [];
+        while (hasMore) {
+            const payload = await this.fetchSyncPage(context, cursor);
+            notes.push(...this.filterNotes(payload));
+            removals.push(...getRemovals(payload));
+            const nextCursor = typeof payload.nextCursor === 'string' ? payload.nextCursor : '';
+            hasMore = payload.hasMore === true && !!nextCursor && nextCursor !== cursor;
+            cursor = nextCursor;
+        }
+
+        notice?.setMessage(`Pebble Sync: Planning ${notes.length} notes...`);
+        const plans: NotePlan[] = [];
+        for (const note of notes) {
+            try {
+                plans.push(await this.planNote(note, context));
+            } catch (error) {
+                // Left out like in a sync, so one bad capture time doesn't block the rest.
+                if (!(error instanceof InvalidTimestampError)) throw error;
+                console.error('Pebble Sync: Skipped note', error);
+            }
+        }
+        return { plans, removals, cursor };
+    }
+
+    /** Imports through the public API, after any running sync, and collects the results. */
+    async importFromApi(options: ImportOptions): Promise<SyncResult[]> {
+        const profiles = options.profile
+            ? this.settings.profiles.filter(profile => profile.id === options.profile || profile.name === options.profile)
+            : this.settings.profiles;
+        if (profiles.length === 0) throw new Error(`Unknown profile "${options.profile}"`);
+
+        const force = options.force === true;
+        const kind: RunKind = options.dryRun ? 'preview' : force ? 'force-import' : 'import';
+        const results: SyncResult[] = [];
+        // Every call gets its own key, so callers never join a sync whose results they can't see.
+        await this.sync.run(`api:${++this.apiCalls}`, async signal => {
+            for (const profile of profiles) {
+                if (signal.aborted) break;
+                const result = options.dryRun ? await this.runDryRun(profile, force) : await this.runImport(profile, force, signal);
+                results.push(result ?? { ...this.createSyncResult(createRun(kind, profile), [], options.dryRun), error: 'The profile is not set up for importing' });
+            }
+        });
+        return results;
+    }
+
+    /** Plans the import like the preview does and reports the planned outcomes. Returns null when the profile isn't set up. */
+    async runDryRun(profile: SyncProfile, force: boolean): Promise<SyncResult | null> {
+        const context = await this.createImportContext(profile, force, true);
+        if (!context) return null;
+
+        const run = createRun('preview', profile);
+        const items: RunItem[] = [];
+        try {
+            const { plans } = await this.planPendingImport(context);
+            for (const plan of plans) {
+                const item: RunItem = { key: plan.dedupeKey, title: plan.templateData.title, outcome: plan.action, path: plan.path, note: { ...plan.note } };
+                addRunItem(run, item);
+                items.push(item);
+            }
+            run.summary = `Pebble Sync: ${plans.filter(plan => PLANNED_WRITES.has(plan.action)).length} of ${plans.length} items would change the vault.`;
+        } catch (error) {
+            console.error('Pebble Sync: Dry run failed', error);
+            run.error = this.normalizeError(error);
+            run.summary = `Pebble Sync: ${run.error}`;
+        }
+        return this.createSyncResult(run, items, true);
+    }
+
+    /**
+     * Handles `obsidian://pebble-sync?action=import`, with optional `profile` (ID or name) and
+     * `force=true`, so shortcuts and share sheets can start a sync. `action=preview` opens the preview.
+     */
+    handleProtocol(params: ObsidianProtocolData) {
+        // Obsidian sets `action` to the handler name unless the URI sets it, so a bare URI imports.
+        const action = params.action === 'pebble-sync' ? 'import' : params.action;
+        const profiles = params.profile
+            ? this.settings.profiles.filter(profile => profile.id === params.profile || profile.name === params.profile)
+            : this.settings.profiles;
+        if (profiles.length === 0) {
+            new Notice(`Unknown profile "${params.profile}"`);
+            return;
+        }
+
+        if (action === 'import') {
+            void this.importNow(params.force === 'true', false, profiles);
+        } else if (action === 'preview') {
+            if (profiles.length === 1) void this.queueSync(`preview:${profiles[0].id}`, () => this.runPreview(profiles[0]));
+            else void this.previewImport();
+        } else {
+            new Notice(`Unknown action "${action}"`);
+        }
+    }
+
+    async runPreview(profile: SyncProfile) {
+        const context = await this.createImportContext(profile, false, true);
+        if (!context) return;
+
+        const fetchNotice = new Notice(this.profileMessage(profile, 'Fetching notes...'), 0);
+        try {
+            const { plans, removals, cursor } = await this.planPendingImport(context, fetchNotice);
+            fetchNotice.hide();
+
+            if (plans.length === 0) {
+                // Removals don't show in the preview, so they are applied without one.
+                if (removals.length > 0) void this.queueSync(`apply-preview:${profile.id}`, signal => this.applyPreview([], [], context, cursor, removals, signal), true);
+                else new Notice('Nothing new to import');
+                return;
+            }
+
+            const items: PreviewItem[] = plans.map(plan => ({
+                action: plan.action,
+                title: plan.templateData.title,
+                path: plan.path,
+                dailyPaths: plan.dailyPaths,
+                selectable: PLANNED_WRITES.has(plan.action),
+                before: plan.currentContent,
+                // Conflicts leave the note alone and write their copy without the identity.
+                after: plan.currentContent === undefined ? undefined : plan.action === 'updated' ? this.renderFinalContent(plan, context) : plan.newContent
+            }));
+            new ImportPreviewModal(this.app, items, selected => { void this.queueSync(`apply-preview:${profile.id}`, signal => this.applyPreview(plans, selected, context, cursor, removals, signal)); }).open();
+        } catch (error) {
+            console.error('Pebble Sync preview error', error);
+            fetchNotice.setMessage(`Pebble Sync: ${this.normalizeError(error)}`);
+        }
+    }
+
+    async applyPreview(plans: NotePlan[], selectedIndexes: number[], context: ImportContext, nextCursor: string, removals: Removal[], signal: AbortSignal) {
+        const settings = this.settings;
+        const selected = new Set(selectedIndexes);
+        const syncNotice = new Notice(`Pebble Sync: Importing ${selected.size} notes...`, 0);
+        const stats = this.createImportStats(context);
+        const storedIds: string[] = [];
+        const run = this.startRun('preview', context.profile);
+        let runError: string | undefined;
+        let deselected = 0;
+        context.dryRun = false;
+
+        try {
+            await this.ensureFolder(context.targetFolder);
+            for (const [index, plan] of plans.entries()) {
+                // Deselected or cancelled writes are left out entirely, so they show up again on the next sync.
+                if (PLANNED_WRITES.has(plan.action) && (!selected.has(index) || signal.aborted)) {
+                    deselected++;
+                    continue;
+                }
+                let result: ImportResult;
+                try {
+                    // Another sync may have run while the preview was open; its items are acknowledged like any other duplicate but never written twice.
+                    result = PLANNED_WRITES.has(plan.action) && !context.force && context.dedupe.has(plan.dedupeKey)
+                        ? { outcome: 'skipped-duplicate' }
+                        : await this.applyPlan(plan, context);
+                } catch (error) {
+                    if (error instanceof SyncCancelledError) {
+                        deselected++;
+                        continue;
+                    }
+                    console.error('Pebble Sync: Failed to import note', error);
+                    stats.failed++;
+                    await this.recordRunItem(run, stats, plan.note, null, error);
+                    continue;
+                }
+                this.recordResult(stats, result);
+                await this.recordRunItem(run, stats, plan.note, result);
+                const itemId = this.getItemId(plan.note);
+                if (itemId) storedIds.push(itemId);
+            }
+
+            if (!signal.aborted) {
+                await this.processRemovals(removals, context, stats);
+            }
+            if (settings.acknowledgeImports && storedIds.length > 0 && !signal.aborted) {
+                await this.acknowledgeItems(context, storedIds);
+            }
+            const complete = stats.failed === 0 && deselected === 0;
+            await this.commitPage(context, settings.incrementalSync && complete ? nextCursor : '');
+            throwIfCancelled(signal);
+
+            syncNotice.setMessage(this.formatImportSummary(stats));
+            this.confirmRemovals(stats.pendingRemovals);
+        } catch (error) {
+            console.error('Pebble Sync import error', error);
+            runError = this.normalizeError(error);
+            syncNotice.setMessage(`Pebble Sync: ${runError}`);
+            stats.failed++;
+        } finally {
+            if (stats.failed === 0) {
+                void setTimeout(() => syncNotice.hide(), 5000);
+            }
+            await this.finishRun(run, this.formatImportSummary(stats), runError, stats.items);
+        }
+    }
+
+    startRun(kind: SyncRun['kind'], profile: SyncProfile): SyncRun {
+        this.events.trigger('sync-started', { profileId: profile.id, profileName: profile.name, kind });
+        return createRun(kind, profile);
+    }
+
+    /** Records the run in the history and returns its result. The history keeps fewer items than the result. */
+    async finishRun(run: SyncRun, summary: string, error?: string, items: RunItem[] = run.items): Promise<SyncResult> {
+        run.finishedAt = new Date().toISOString();
+        run.summary = summary;
+        if (error) run.error = error;
+        this.syncHistory = appendRun(this.syncHistory, run);
+        try {
+            await this.saveSyncHistory();
+        } catch (error) {
+            console.error('Pebble Sync: Failed to save the sync history', error);
+        }
+        this.updateStatusBar();
+        this.events.trigger('history-changed');
+
+        const result = this.createSyncResult(run, items);
+        this.events.trigger('sync-finished', result);
+        return result;
+    }
+
+    createSyncResult(run: SyncRun, items: RunItem[], dryRun = false): SyncResult {
+        return {
+            profileId: run.profileId ?? DEFAULT_PROFILE_ID,
+            profileName: run.profileName ?? '',
+            kind: run.kind,
+            dryRun,
+            counts: { ...run.counts },
+            summary: run.summary,
+            error: run.error,
+            items
+        };
+    }
+
+    /** Adds the item to the run and the stats, and tells listeners about items that changed the vault. */
+    async recordRunItem(run: SyncRun, stats: ImportStats, note: PebbleNote, result: ImportResult | null, error?: unknown) {
+        const item = await this.makeRunItem(note, result, error);
+        addRunItem(run, item);
+        stats.items.push(item);
+        if (result && PLANNED_WRITES.has(result.outcome)) {
+            this.events.trigger('note-imported', note, result.file ?? null, item);
+        }
+    }
+
+    async makeRunItem(note: PebbleNote, result: ImportResult | null, error?: unknown): Promise<RunItem> {
+        const firstLine = (note.markdown || '').split('\n').find(line => line.trim())?.trim() ?? '';
+        return {
+            key: await this.makeDedupeKey(note),
+            title: result?.file?.basename ?? (firstLine.substring(0, 80) || 'Pebble note'),
+            outcome: result ? result.outcome : 'failed',
+            path: result?.file?.path,
+            error: error !== undefined ? this.normalizeError(error) : undefined,
+            note: { ...note }
+        };
+    }
+
+    updateStatusBar() {
+        if (!this.statusBarEl) return;
+        const lastRun = this.syncHistory[0];
+        if (this.sync.isBusy) {
+            this.statusBarEl.setText(this.sync.activeKey === 'push' ? 'Pebble: pushing...' : 'Pebble: syncing...');
+        } else if (!lastRun) {
+            this.statusBarEl.setText('Pebble: not synced yet');
+        } else {
+            const { created, updated, failed } = lastRun.counts;
+            const time = moment(lastRun.finishedAt ?? lastRun.startedAt).format('HH:mm');
+            const result = lastRun.error ? 'failed' : `${created} new, ${updated} updated${failed > 0 ? `, ${failed} failed` : ''}`;
+            this.statusBarEl.setText(`Pebble: ${time} (${result})`);
+        }
+    }
+
+    async activateStatusView() {
+        const { workspace } = this.app;
+        let leaf = workspace.getLeavesOfType(VIEW_TYPE_SYNC_STATUS)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+            await rightLeaf.setViewState({ type: VIEW_TYPE_SYNC_STATUS, active: true });
+            leaf = rightLeaf;
+        }
+        await workspace.revealLeaf(leaf);
+    }
+
+    async reimportItem(item: RunItem, profileId: string | undefined) {
+        const profile = this.getProfile(profileId ?? DEFAULT_PROFILE_ID) ?? this.settings.profiles[0];
+        await this.queueSync(`re-import:${item.key}`, () => this.runReimport(item, profile));
+    }
+
+    async runReimport(item: RunItem, profile: SyncProfile) {
+        const context = await this.createImportContext(profile, true);
+        if (!context) return;
+
+        const note = item.note as PebbleNote;
+        const stats = this.createImportStats(context);
+        const run = this.startRun('re-import', profile);
+        let summary = '';
+        try {
+            const result = await this.importNote(note, context);
+            await this.recordRunItem(run, stats, note, result);
+            await this.commitPage(context, '');
+            summary = `Pebble Sync: Re-imported ${item.title}.`;
+        } catch (error) {
+            console.error('Pebble Sync: Failed to re-import note', error);
+            await this.recordRunItem(run, stats, note, null, error);
+            summary = `Pebble Sync: ${this.normalizeError(error)}`;
+        }
+        new Notice(summary);
+        await this.finishRun(run, summary, undefined, stats.items);
+    }
+
+    async forgetImportedKey(key: string, profileId: string | undefined) {
+        const profile = this.getProfile(profileId ?? DEFAULT_PROFILE_ID) ?? this.settings.profiles[0];
+        const dedupe = await this.getDedupeIndex(profile);
+        dedupe.delete(key);
+        await dedupe.save();
+        new Notice('Forgot this item; it will be imported again on the next sync');
+    }
+
+    getHistoryExportPath(profile: SyncProfile): string {
+        return profile.id === DEFAULT_PROFILE_ID ? HISTORY_EXPORT_PATH : HISTORY_EXPORT_PATH.replace(/\.json$/, ` ${toSafeFileName(profile.name)}.json`);
+    }
+
+    async exportImportHistory(profile: SyncProfile) {
+        const dedupe = await this.getDedupeIndex(profile);
+        const path = this.getHistoryExportPath(profile);
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, dedupe.serialize());
+        } else {
+            await this.app.vault.create(path, dedupe.serialize());
+        }
+        new Notice(`Exported ${dedupe.size} items to ${path}`);
+    }
+
+    async importImportHistory(profile: SyncProfile) {
+        const path = this.getHistoryExportPath(profile);
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            new Notice(`${path} was not found in the vault`);
+            return;
+        }
+        try {
+            const dedupe = await this.getDedupeIndex(profile);
+            const added = dedupe.merge(await this.app.vault.read(file));
+            await dedupe.save();
+            new Notice(`Added ${added} items to the import history`);
+        } catch (error) {
+            console.error('Pebble Sync: Failed to import the import history', error);
+            new Notice(`Could not read ${path}: ${this.normalizeError(error)}`);
+        }
+    }
+
+    async clearSyncHistory() {
+        this.syncHistory = [];
+        await this.saveSyncHistory();
+        this.updateStatusBar();
+        this.events.trigger('history-changed');
+    }
+
+    async importNote(note: PebbleNote, context: ImportContext): Promise<ImportResult> {
+        return this.applyPlan(await this.planNote(note, context), context);
+    }
+
+    /**
+     * Decides what importing a note would do without writing anything to the vault.
+     */
+    async planNote(note: PebbleNote, context: ImportContext): Promise<NotePlan> {
+        const settings = this.settings;
+        const dedupeKey = await this.makeDedupeKey(note);
+        const itemId = this.getItemId(note);
+        let noteMoment = this.resolveNoteMoment(note.createdAt);
+        const needsReview = !noteMoment;
+        if (!noteMoment) {
+            if (settings.invalidTimestampAction !== 'review') throw new InvalidTimestampError(note.createdAt);
+            // Only names the file; the note's dates are left empty so the current time isn't mistaken for the capture time.
+            noteMoment = moment();
+        }
+        // Routing rules only apply to notes; the other item types have their own settings.
+        const itemType = getItemType(note);
+        const route = needsReview || itemType !== 'note' ? null : findMatchingRule(settings.routingRules, note.markdown || '', note.tags || [], noteMoment);
+        const rule = route?.rule;
+        const baseName = getItemTitle(note) || this.resolveRouteTitle(note, context.triggerTags, route);
+        const templateData: TemplateData = { ...this.buildTemplateData(note, noteMoment, baseName), ...getItemTypeFields(note) };
+        if (needsReview) {
+            templateData.date = '';
+            templateData.time = '';
+            templateData.fullDateTime = '';
+        }
+        const typeFolder = itemType === 'bookmark' ? settings.bookmarkFolder : itemType === 'checklist' ? settings.checklistFolder : '';
+        const typeTemplate = itemType === 'bookmark' ? settings.bookmarkTemplate : itemType === 'checklist' ? settings.checklistTemplate : '';
+        const targetFolder = normalizePath(needsReview ? settings.reviewFolder.trim() || context.targetFolder : typeFolder.trim() || rule?.folder.trim() || context.targetFolder);
+        const template = typeTemplate.trim() ? typeTemplate : rule?.template.trim() ? rule.template : context.profile.atomicNotesTemplate;
+        const serverHash = hashContent(getItemSignature(note));
+        const plan: NotePlan = {
+            note, action: 'skipped-duplicate', path: '', dailyPaths: [], newContent: '',
+            dedupeKey, itemId, noteMoment, rule, templateData, title: templateData.title, template, targetFolder, serverHash, rewrites: new Map()
+        };
+
+        if (!context.force && context.dedupe.has(dedupeKey, this.makeLegacyDedupeKey(note))) {
+            return plan;
+        }
+
+        if (itemType === 'task') {
+            const entry = stripFrontmatter(this.processTemplate(settings.taskTemplate.trim() || DEFAULT_TASK_TEMPLATE, templateData, noteMoment)).trim().replace(/\s*\n\s*/g, ' ');
+            // Without a capture date there is no daily note to add the task to.
+            const toTaskFile = settings.taskDestination === 'file' || needsReview;
+            const path = toTaskFile ? this.getTaskFilePath() : this.getDailyPath(noteMoment, this.getPeriodicConfig('day'));
+            // Tasks without an ID can't be found again, so their changes add a new line.
+            const newContent = itemId ? `${entry} ^${getTaskBlockId(itemId)}` : entry;
+            return { ...plan, action: 'task', path, toTaskFile, newContent };
+        }
+
+        // Inline daily entries replace the atomic note for captures that no rule sends elsewhere.
+        const inlineOnly = itemType === 'note' && !rule && !needsReview && settings.linkBackToDailyNote && settings.dailyEntryStyle === 'inline';
+        if (rule?.action === 'daily-only' || inlineOnly) {
+            const entry = this.processTemplate(rule?.template.trim() ? rule.template : DEFAULT_DAILY_ENTRY_TEMPLATE, templateData, noteMoment);
+            const [path, ...otherPaths] = this.getPeriodicPaths(noteMoment);
+            return { ...plan, action: 'daily-entry', path, dailyPaths: otherPaths, newContent: stripFrontmatter(entry).trim() };
+        }
+
+        const identity = itemId || dedupeKey;
+        const knownFile = itemId ? context.notesById.get(itemId) : undefined;
+        // The note's own earlier copy never makes its title taken; notes without an ID are found by their path.
+        const ownFile = knownFile ?? this.app.vault.getAbstractFileByPath(this.resolveNotePath(targetFolder, this.renderFileName(templateData, noteMoment), note, noteMoment, context, identity));
+        plan.title = this.makeUniqueTitle(targetFolder, templateData.title, identity, context, ownFile instanceof TFile ? ownFile : undefined);
+        // Prefer the frontmatter identity so renamed or moved notes are still recognised.
+        const path = knownFile?.path ?? this.resolveNotePath(targetFolder, this.renderFileName({ ...templateData, title: plan.title }, noteMoment), note, noteMoment, context, identity);
+        const existing = knownFile ?? this.app.vault.getAbstractFileByPath(path);
+        const existingFile = existing instanceof TFile ? existing : undefined;
+        plan.path = path;
+        plan.existingFile = existingFile;
+        templateData.content = this.linkMentions(templateData.content, context, existingFile?.path, plan.rewrites);
+        plan.newContent = this.processTemplate(template, templateData, noteMoment);
+
+        const linkBack = !needsReview && (rule && rule.dailyLink !== 'default' ? rule.dailyLink === 'link' : settings.linkBackToDailyNote);
+        plan.dailyPaths = linkBack ? this.getPeriodicPaths(noteMoment) : [];
+
+        if (!existingFile) {
+            context.claimedPaths.set(path, itemId || dedupeKey);
+            return { ...plan, action: 'created' };
+        }
+
+        const state = await this.compareWithVault(existingFile, serverHash);
+        if ((state === 'untracked' && !(settings.overwriteExisting || context.force)) || (state === 'unchanged' && !context.force)) {
+            return { ...plan, action: 'skipped-existing', dailyPaths: [] };
+        }
+        if (state === 'vault-changed') {
+            return { ...plan, action: 'kept-local', dailyPaths: [] };
+        }
+
+        if (context.dryRun) {
+            plan.currentContent = await this.app.vault.read(existingFile);
+        }
+        return { ...plan, action: state === 'conflict' ? 'conflict' : 'updated', dailyPaths: state === 'conflict' ? [] : plan.dailyPaths };
+    }
+
+    /**
+     * Carries out a planned import. Attachments are only downloaded here, once the note is
+     * actually written.
+     */
+    async applyPlan(plan: NotePlan, context: ImportContext): Promise<ImportResult> {
+        const settings = this.settings;
+        const { note, rule, itemId, noteMoment, serverHash } = plan;
+
+        if (plan.action === 'skipped-duplicate') {
+            return { outcome: plan.action };
+        }
+        if (plan.action === 'skipped-existing' || plan.action === 'kept-local') {
+            this.rememberImport(plan, context);
+            return { outcome: plan.action, file: plan.existingFile };
+        }
+        if (plan.action === 'daily-entry') {
+            const blockId = itemId ? getTaskBlockId(itemId) : undefined;
+            const dailyPaths: string[] = [];
+            // Followed by a blank line so entries stay separate paragraphs.
+            for (const period of this.getPeriodicTargets()) {
+                const dailyFile = await this.insertDailyEntry(`${plan.newContent}\n`, noteMoment, period, true, blockId);
+                if (dailyFile) dailyPaths.push(dailyFile.path);
+            }
+            if (blockId) this.dailyEntryIndex.addItem(blockId, dailyPaths);
+            this.rememberImport(plan, context);
+            return { outcome: 'daily-entry' };
+        }
+        if (plan.action === 'task') {
+            const updated = await this.updateTaskLine(plan.path, plan.newContent);
+            if (updated) {
+                if (itemId) this.dailyEntryIndex.addItem(getTaskBlockId(itemId), [updated.path]);
+                this.rememberImport(plan, context);
+                return { outcome: 'updated', file: updated };
+            }
+            // Task lines carry no ordering marker, since trailing text would hide their dates from the Tasks plugin.
+            const file = plan.toTaskFile
+                ? await this.appendToTaskFile(plan.newContent)
+                : await this.insertDailyEntry(plan.newContent, noteMoment, 'day', false);
+            if (itemId && file) this.dailyEntryIndex.addItem(getTaskBlockId(itemId), [file.path]);
+            this.rememberImport(plan, context);
+            return { outcome: 'task', file: file ?? undefined };
+        }
+
+        let path = plan.path;
+        if (plan.action === 'created' && this.app.vault.getAbstractFileByPath(path)) {
+            // The vault changed since the plan was made (e.g. while a preview was open).
+            path = this.resolveNotePath(plan.targetFolder, this.renderFileName({ ...plan.templateData, title: plan.title }, noteMoment), note, noteMoment, context, itemId || plan.dedupeKey);
+        }
+
+        let fileContent = plan.newContent;
+        let rewrites = plan.rewrites;
+        if (settings.downloadAttachments || context.source.bundlesAttachments) {
+            rewrites = new Map();
+            const content = this.linkMentions(await this.localizeAttachments(note, path, context, rewrites), context, plan.existingFile?.path, rewrites);
+            const templateData = { ...plan.templateData, content };
+            fileContent = this.processTemplate(plan.template, templateData, noteMoment);
+        }
+
+        if (plan.action === 'conflict' && plan.existingFile) {
+            const conflictFile = await this.resolveConflict(plan.existingFile, note, fileContent, noteMoment);
+            this.rememberImport(plan, context);
+            return { outcome: 'conflict', file: conflictFile };
+        }
+
+        let atomicFile: TFile;
+        let outcome: ImportOutcome;
+        if (plan.existingFile) {
+            await this.app.vault.modify(plan.existingFile, fileContent);
+            atomicFile = plan.existingFile;
+            outcome = 'updated';
+        } else {
+            await this.ensureFolder(plan.targetFolder);
+            atomicFile = await this.app.vault.create(path, fileContent);
+            outcome = 'created';
+        }
+        context.claimedPaths.set(atomicFile.path, itemId || plan.dedupeKey);
+
+        if (rule?.frontmatter.trim()) {
+            await this.applyExtraFrontmatter(atomicFile, rule.frontmatter);
+        }
+
+        // Notes without an ID get the hashes too, which marks them as imported rather than new captures.
+        await this.stampPebbleIdentity(atomicFile, itemId || undefined, serverHash, fileContent, context.profile, getItemType(note), rewrites);
+        if (itemId) context.notesById.set(itemId, atomicFile);
+
+        if (settings.titleAlias) {
+            await this.addAlias(atomicFile, plan.title);
+        }
+
+        // Captures without a usable date have no place in the date-ordered indexes.
+        if (settings.tagIndexEnabled && plan.templateData.fullDateTime && plan.templateData.tags.length > 0) {
+            context.indexedNotes.push({ file: atomicFile, time: plan.templateData.fullDateTime, tags: plan.templateData.tags });
+        }
+
+        this.rememberImport(plan, context);
+
+        if (plan.dailyPaths.length > 0) {
+            await this.linkToDailyNote(atomicFile, noteMoment, note.markdown || '');
+        }
+
+        return { outcome, file: atomicFile };
+    }
+
+    rememberImport(plan: NotePlan, context: ImportContext) {
+        context.dedupe.add(plan.dedupeKey, {
+            itemId: plan.itemId || undefined,
+            createdAt: typeof plan.note.createdAt === 'string' ? plan.note.createdAt : undefined,
+            title: plan.templateData.title
+        });
+    }
+
+    resolveRouteTitle(note: PebbleNote, triggerTags: Set<string>, route: RouteMatch | null): string {
+        const rule = route?.rule;
+        if (rule?.titleStrategy === 'rule-tag' && route?.matchedTag) {
+            return sanitizeFileName(capitalize(route.matchedTag)) || 'Pebble Note';
+        }
+        if (rule?.titleStrategy === 'first-line') {
+            return this.resolveFirstLineTitle(note);
+        }
+        if (rule?.titleStrategy === 'custom' && rule.customTitle.trim()) {
+            return sanitizeFileName(rule.customTitle) || 'Pebble Note';
+        }
+        return this.resolveBaseName(note, triggerTags);
+    }
+
+    async applyExtraFrontmatter(file: TFile, yaml: string) {
+        const extra = this.parseExtraFrontmatter(yaml);
+        if (!extra) return;
+
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            Object.assign(frontmatter, extra);
+        });
+    }
+
+    parseExtraFrontmatter(yaml: string): Record<string, unknown> | null {
+        let extra: unknown;
+        try {
+            extra = parseYaml(yaml);
+        } catch (error) {
+            console.error('Pebble Sync: Invalid extra frontmatter in routing rule', error);
+            return null;
+        }
+        return extra && typeof extra === 'object' && !Array.isArray(extra) ? extra as Record<string, unknown> : null;
+    }
+
+    /**
+     * Downloads attachments served by the Pebble API and rewrites their links to vault files.
+     * Anything that fails to download keeps its remote link and is reported in the summary.
+     */
+    async localizeAttachments(note: PebbleNote, notePath: string, context: ImportContext, rewrites: Map<string, string>): Promise<string> {
+        let markdown = note.markdown || '';
+        const appended: string[] = [];
+
+        for (const reference of findAttachmentReferences(markdown, note.attachments, (url, inline) => context.source.resolveAttachment(url, inline))) {
+            let replacement: string;
+            try {
+                const file = await this.downloadAttachment(reference.url, notePath, context);
+                const link = this.app.fileManager.generateMarkdownLink(file, notePath, '', reference.isEmbed ? '' : reference.label);
+                replacement = reference.isEmbed ? `!${link}` : link;
+                // Attachments listed outside the markdown are dropped again when pushing.
+                rewrites.set(replacement, reference.markdown);
+            } catch (error) {
+                if (error instanceof SyncCancelledError) throw error;
+                console.error(`Pebble Sync: Failed to download attachment ${reference.url}`, error);
+                context.attachmentFailures.push(reference.url);
+                replacement = `![${reference.label}](${reference.url})`;
+                if (reference.markdown) continue;
+            }
+
+            if (reference.markdown) {
+                markdown = markdown.split(reference.markdown).join(replacement);
+            } else {
+                appended.push(replacement);
+            }
+        }
+
+        return appended.length > 0 ? `${markdown.replace(/\s*$/, '')}\n\n${appended.join('\n')}` : markdown;
+    }
+
+    async downloadAttachment(url: string, notePath: string, context: ImportContext): Promise<TFile> {
+        const maxBytes = this.settings.attachmentMaxSizeMB * 1024 * 1024;
+        const tooLarge = () => new Error(`Attachment is larger than ${this.settings.attachmentMaxSizeMB} MB`);
+        // Checked before downloading where the size is known, so large files are never read into memory.
+        if (maxBytes > 0 && ((await context.source.getAttachmentSize(url)) ?? 0) > maxBytes) throw tooLarge();
+
+        const { data, contentType } = await context.source.fetchAttachment(url);
+        if (maxBytes > 0 && data.byteLength > maxBytes) throw tooLarge();
+
+        const hash = await hashAttachment(data);
+        const index = context.attachmentsByHash ?? (context.attachmentsByHash = this.buildAttachmentIndex());
+        const existing = index.get(hash);
+        if (existing) return existing;
+
+        const name = buildAttachmentName(url, contentType, hash);
+        const folder = this.settings.attachmentsFolder.trim();
+        let path: string;
+        if (folder) {
+            await this.ensureFolder(folder);
+            path = normalizePath(`${folder}/${name}`);
+        } else {
+            path = await this.app.fileManager.getAvailablePathForAttachment(name, notePath);
+        }
+
+        const file = await this.app.vault.createBinary(path, data);
+        index.set(hash, file);
+        return file;
+    }
+
+    buildAttachmentIndex(): Map<string, TFile> {
+        const index = new Map<string, TFile>();
+        for (const file of this.app.vault.getFiles()) {
+            const hash = getAttachmentHash(file.basename);
+            if (hash) index.set(hash, file);
+        }
+        return index;
+    }
+
+    renderFileName(data: TemplateData, noteMoment: moment.Moment): string {
+        const template = this.settings.fileNameTemplate.trim() || DEFAULT_SETTINGS.fileNameTemplate;
+        return toSafeFileName(this.processTemplate(template, data, noteMoment));
+    }
+
+    /**
+     * Picks the path for a note that is not yet known by ID. A file already at the rendered path
+     * is reused only if it belongs to the same Pebble item; otherwise the collision strategy
+     * decides the alternative name.
+     */
+    resolveNotePath(folder: string, name: string, note: PebbleNote, noteMoment: moment.Moment, context: ImportContext, identity: string): string {
+        const itemId = this.getItemId(note);
+        const toPath = (candidate: string) => normalizePath(folder ? `${folder}/${candidate}.md` : `${candidate}.md`);
+
+        const candidates = [name];
+        const strategy = this.settings.fileNameCollision;
+        if (strategy === 'id') {
+            const shortId = sanitizeFileName(itemId).replace(/[\s-]/g, '').substring(0, 8) || hashContent(note.markdown || '');
+            candidates.push(`${name} (${shortId})`);
+        } else if (strategy === 'seconds') {
+            candidates.push(`${name}-${noteMoment.format('ss')}`);
+        }
+
+        for (const candidate of candidates) {
+            const path = toPath(candidate);
+            if (this.isFreeOrSameNote(path, identity, context)) return path;
+        }
+
+        const fallbackBase = candidates[candidates.length - 1];
+        for (let counter = 2; ; counter++) {
+            const path = toPath(`${fallbackBase} ${counter}`);
+            if (this.isFreeOrSameNote(path, identity, context)) return path;
+        }
+    }
+
+    isFreeOrSameNote(path: string, identity: string, context: ImportContext): boolean {
+        // The metadata cache may not have indexed files from this run yet, so check those first.
+        const claimedBy = context.claimedPaths.get(path);
+        if (claimedBy !== undefined) return claimedBy === identity;
+
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!file) return true;
+        if (!(file instanceof TFile)) return false;
+
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (frontmatter?.[PEBBLE_CONFLICT_KEY]) return false;
+        const pebbleId: unknown = frontmatter?.[PEBBLE_ID_KEY];
+        // Files without an ID may be anyone's note, so they are only replaced when a force re-import is allowed to overwrite them.
+        if (typeof pebbleId !== 'string' && typeof pebbleId !== 'number') return context.force && this.settings.overwriteExisting;
+        return String(pebbleId) === identity;
+    }
+
+    /**
+     * Compares an existing atomic note against the hashes recorded when it was last imported.
+     * Notes without recorded hashes predate change tracking and are reported as untracked.
+     */
+    async compareWithVault(file: TFile, serverHash: string): Promise<SyncState> {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const importedHash: unknown = frontmatter?.[PEBBLE_HASH_KEY];
+        const localHash: unknown = frontmatter?.[PEBBLE_LOCAL_HASH_KEY];
+        if (typeof importedHash !== 'string' || typeof localHash !== 'string') {
+            return 'untracked';
+        }
+
+        const currentHash = hashContent(stripFrontmatter(await this.app.vault.read(file)).trim());
+        const serverChanged = importedHash !== serverHash;
+        const vaultChanged = localHash !== currentHash;
+
+        if (serverChanged && vaultChanged) return 'conflict';
+        if (serverChanged) return 'server-changed';
+        if (vaultChanged) return 'vault-changed';
+        return 'unchanged';
+    }
+
+    async resolveConflict(file: TFile, note: PebbleNote, fileContent: string, noteMoment: moment.Moment): Promise<TFile> {
+        const serverHash = hashContent(getItemSignature(note));
+
+        if (this.settings.conflictStrategy === 'merge-sections') {
+            const stamp = moment().format('YYYY-MM-DD HH:mm');
+            const section = [
+                '',
+                `%% pebble-sync conflict ${stamp}: start %%`,
+                `> [!warning] Pebble version (${noteMoment.format('YYYY-MM-DD HH:mm')})`,
+                ...(note.markdown || '').split('\n').map(line => `> ${line}`),
+                `%% pebble-sync conflict ${stamp}: end %%`,
+                ''
+            ].join('\n');
+            const merged = `${(await this.app.vault.read(file)).replace(/\s*$/, '\n')}${section}`;
+            await this.app.vault.modify(file, merged);
+            await this.stampPebbleIdentity(file, undefined, serverHash, merged);
+            return file;
+        }
+
+        // Keep the vault copy untouched and write the incoming version next to it.
+        const folder = file.parent?.path && file.parent.path !== '/' ? `${file.parent.path}/` : '';
+        const copyPath = normalizePath(`${folder}${file.basename} (Pebble conflict ${moment().format('YYYY-MM-DD HH-mm-ss')}).md`);
+        const copy = await this.app.vault.create(copyPath, fileContent);
+        await this.app.fileManager.processFrontMatter(copy, (frontmatter: Record<string, unknown>) => {
+            frontmatter[PEBBLE_CONFLICT_KEY] = true;
+        });
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            frontmatter[PEBBLE_HASH_KEY] = serverHash;
+        });
+        return copy;
+    }
+
+    /**
+     * Records the Pebble identity and the hashes of the content as it was written, so later
+     * syncs can tell server-side edits apart from edits made in the vault.
+     */
+    async stampPebbleIdentity(file: TFile, itemId: string | undefined, serverHash: string, writtenContent: string, profile?: SyncProfile, itemType?: string, rewrites?: Map<string, string>) {
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+            this.setIdentityFields(frontmatter, itemId, serverHash, writtenContent, profile, itemType, rewrites);
+        });
+    }
+
+    setIdentityFields(frontmatter: Record<string, unknown>, itemId: string | undefined, serverHash: string, writtenContent: string, profile?: SyncProfile, itemType?: string, rewrites?: Map<string, string>) {
+        if (itemId) frontmatter[PEBBLE_ID_KEY] = itemId;
+        // Notes without a profile belong to the default one, so only other profiles are recorded.
+        if (itemId && profile && profile.id !== DEFAULT_PROFILE_ID) frontmatter[PEBBLE_PROFILE_KEY] = profile.id;
+        if (itemType && itemType !== 'note') frontmatter[PEBBLE_TYPE_KEY] = itemType;
+        frontmatter[PEBBLE_HASH_KEY] = serverHash;
+        frontmatter[PEBBLE_LOCAL_HASH_KEY] = hashContent(stripFrontmatter(writtenContent).trim());
+        // Replaced on every import, so links from an older version of the item don't linger.
+        if (rewrites && rewrites.size > 0) {
+            const recorded: Record<string, string> = {};
+            rewrites.forEach((original, link) => { recorded[link] = original; });
+            frontmatter[PEBBLE_REWRITES_KEY] = recorded;
+        } else if (rewrites) {
+            delete frontmatter[PEBBLE_REWRITES_KEY];
+        }
+    }
+
+    /**
+     * The file as applyPlan leaves it, with the routing rule's frontmatter, the Pebble identity and
+     * the alias added, so the preview shows every change. Attachments are only downloaded when the
+     * note is written, so they still point to the server here.
+     */
+    renderFinalContent(plan: NotePlan, context: ImportContext): string {
+        const yaml = /^---\r?\n([\s\S]*?)\r?\n---/.exec(plan.newContent)?.[1] ?? '';
+        let frontmatter: Record<string, unknown>;
+        try {
+            const parsed: unknown = yaml.trim() ? parseYaml(yaml) : {};
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return plan.newContent;
+            frontmatter = parsed as Record<string, unknown>;
+        } catch {
+            return plan.newContent;
+        }
+
+        const extra = plan.rule?.frontmatter.trim() ? this.parseExtraFrontmatter(plan.rule.frontmatter) : null;
+        if (extra) Object.assign(frontmatter, extra);
+        this.setIdentityFields(frontmatter, plan.itemId || undefined, plan.serverHash, plan.newContent, context.profile, getItemType(plan.note), plan.rewrites);
+        if (this.settings.titleAlias) this.setAliasField(frontmatter, plan.title);
+        return `---\n${stringifyYaml(frontmatter)}---\n${stripFrontmatter(plan.newContent)}`;
+    }
+
+    buildPebbleIdIndex(profile: SyncProfile): Map<string, TFile> {
+        const index = new Map<string, TFile>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+            const pebbleId: unknown = frontmatter?.[PEBBLE_ID_KEY];
+            if (!belongsToProfile(frontmatter?.[PEBBLE_PROFILE_KEY], profile.id)) continue;
+            if (typeof pebbleId === 'string' || typeof pebbleId === 'number') {
+                index.set(String(pebbleId), file);
+            }
+        }
+        return index;
+    }
+
+    async fetchSyncPage(context: ImportContext, cursor: string): Promise<PebbleSyncResponse> {
+        const limit = this.settings.incrementalSync ? this.settings.syncPageSize : 0;
+        return await context.source.fetchPage(cursor, limit) as PebbleSyncResponse;
+    }
+
+    async acknowledgeItems(context: ImportContext, ids: string[]) {
+        await context.source.acknowledge?.(ids, this.settings.ackAction);
+    }
+
+    async commitPage(context: ImportContext, nextCursor: string) {
+        await this.updateTagIndexes(context);
+        await context.dedupe.save();
+        await this.dailyEntryIndex.save();
+        if (nextCursor) {
+            context.profile.syncCursors = { ...context.profile.syncCursors, [context.source.key]: nextCursor };
+        }
+        await this.saveSettings();
+    }
+
+    /**
+     * Adds the notes written since the last update to the index note of each of their tags.
+     * Entries whose note was deleted, or that point to a note added again, are dropped.
+     */
+    async updateTagIndexes(context: ImportContext) {
+        if (context.indexedNotes.length === 0) return;
+        const folder = normalizePath(this.settings.tagIndexFolder.trim() || DEFAULT_SETTINGS.tagIndexFolder);
+        const byTag = new Map<string, { tag: string; notes: IndexedNote[] }>();
+        for (const note of context.indexedNotes) {
+            for (const tag of note.tags) {
+                const key = tag.toLowerCase();
+                const group = byTag.get(key) ?? { tag, notes: [] };
+                if (!group.notes.some(existing => existing.file === note.file)) group.notes.push(note);
+                byTag.set(key, group);
+            }
+        }
+        context.indexedNotes = [];
+
+        for (const { tag, notes } of byTag.values()) {
+            const name = sanitizeFileName(tag);
+            if (!name) continue;
+            const path = normalizePath(`${folder}/${name}.md`);
+            try {
+                const readded = new Set(notes.map(note => note.file.path));
+                const added: TagIndexEntry[] = notes.map(note => ({ time: note.time, link: this.app.fileManager.generateMarkdownLink(note.file, path) }));
+                const keep = (line: string) => {
+                    const linkpath = getEntryLinkpath(line);
+                    if (linkpath === null) return true;
+                    const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(linkpath), path);
+                    return !!target && !readded.has(target.path);
+                };
+                const existing = this.app.vault.getAbstractFileByPath(path);
+                if (existing instanceof TFile) {
+                    const content = await this.app.vault.read(existing);
+                    const updated = updateTagIndex(content, added, keep);
+                    if (updated !== content) await this.app.vault.modify(existing, updated);
+                } else {
+                    await this.ensureFolder(folder);
+                    await this.app.vault.create(path, updateTagIndex(createTagIndex(tag), added, keep));
+                }
+            } catch (error) {
+                console.error(`Pebble Sync: Failed to update the index note for ${tag}`, error);
+            }
         }
-        return {
-            folder: s.dailyFolder || '',
-            format: s.dailyFileNameFormat,
-            template: '' // Standalone mode doesn't support templates
-        };
     }
 
-    processTemplate(template: string, data: TemplateData): string {
-        const tagString = (data.tags || []).filter(t => t).join(', ');
-        return template
-            .replace(/{{content}}/gi, data.content || '')
-            .replace(/{{date}}/gi, data.date || '')
-            .replace(/{{time}}/gi, data.time || '')
-            .replace(/{{fullDateTime}}/gi, data.fullDateTime || '')
-            .replace(/{{tags}}/gi, tagString);
+    getSyncCursor(profile: SyncProfile, apiUrl: string): string {
+        const cursor = profile.syncCursors?.[apiUrl];
+        return typeof cursor === 'string' ? cursor : '';
     }
 
-    async importNow(force = false) {
-        const settings = this.settings;
-        const apiUrl = this.normalizeApiUrl(settings.apiUrl);
+    async resetSyncCursor(profile: SyncProfile) {
+        const apiUrl = this.normalizeApiUrl(profile.apiUrl);
+        const cursors = { ...profile.syncCursors };
+        delete cursors[apiUrl];
+        profile.syncCursors = cursors;
+        await this.saveSettings();
+    }
 
-        if (!apiUrl) {
-            new Notice('Configure a valid API URL before syncing');
-            return;
+    formatImportSummary(stats: ImportStats): string {
+        const details = [];
+        if (stats.created > 0) details.push(`created ${stats.created} new notes`);
+        if (stats.updated > 0) details.push(`updated ${stats.updated} notes`);
+        if (stats.dailyEntries > 0) details.push(`added ${stats.dailyEntries} entries to daily notes`);
+        if (stats.tasks > 0) details.push(`added ${stats.tasks} tasks`);
+        if (stats.skippedDuplicates > 0) details.push(`skipped ${stats.skippedDuplicates} duplicates`);
+        if (stats.skippedExisting > 0) details.push(`skipped ${stats.skippedExisting} existing notes`);
+        if (stats.keptLocal > 0) details.push(`kept ${stats.keptLocal} notes edited in the vault`);
+        if (stats.attachmentFailures.length > 0) details.push(`${stats.attachmentFailures.length} attachments could not be downloaded and still point to the server`);
+        if (stats.conflicts.length > 0) details.push(`${stats.conflicts.length} conflicts (${stats.conflicts.join(', ')})`);
+        if (stats.removed > 0) details.push(`removed ${stats.removed} notes deleted or archived on the server`);
+        if (stats.pendingRemovals.length > 0) details.push(`${stats.pendingRemovals.length} notes removed on the server were edited in the vault and need confirmation`);
+        if (stats.ignoredTypes.length > 0) details.push(`ignored ${stats.ignoredTypes.length} items of unsupported or disabled types (${[...new Set(stats.ignoredTypes)].join(', ')})`);
+        if (stats.failed > 0) details.push(`failed to import ${stats.failed} notes (see console)`);
+
+        if (details.length === 0) {
+            return 'Pebble Sync: Nothing new to import.';
         }
+        return `Pebble Sync: Import complete. ${details.join(', ')}.`;
+    }
 
-        if (!settings.apiKey) {
-            new Notice('API key is required');
-            return;
-        }
+    async pushNow() {
+        await this.queueSync('push', async signal => {
+            for (const profile of this.settings.profiles) {
+                if (signal.aborted) break;
+                await this.runPush(profile, signal);
+            }
+        });
+    }
 
-        if (!settings.atomicNotesEnabled) {
-            new Notice('Enable atomic notes to run the importer');
-            return;
-        }
+    async runPush(profile: SyncProfile, signal: AbortSignal) {
+        const apiUrl = this.normalizeApiUrl(profile.apiUrl);
 
-        const targetFolder = (settings.atomicNotesFolder || '').trim();
-        if (!targetFolder) {
-            new Notice('Set a folder for atomic notes in the settings');
+        if (!apiUrl || !profile.apiKey) {
+            new Notice(this.profileMessage(profile, 'API URL and API key must be set before pushing'));
             return;
         }
 
-        const syncNotice = new Notice('Fetching notes...', 0);
-        const storedKeys = new Set(Array.isArray(settings.importedKeys) ? settings.importedKeys : []);
-        let keysMutated = false;
-        let importFailed = false;
+        const pushNotice = new Notice(this.profileMessage(profile, 'Collecting local changes...'), 0);
+        // Only pushes that send something or fail are recorded, so imports aren't pushed out of the history.
+        let run: SyncRun | null = null;
+        let runError: string | undefined;
+        let summary = '';
 
         try {
-            const response = await requestUrl({
-                url: `${apiUrl}/api/sync/fetch`,
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-API-Key': settings.apiKey
-                }
-            });
-
-            const payload = (response.json as PebbleSyncResponse) ?? JSON.parse(response.text) as PebbleSyncResponse;
-            const notes = Array.isArray(payload.items)
-                ? payload.items.filter(item => item?.type === 'note' && typeof item.markdown === 'string')
-                : [];
-
-            if (notes.length === 0) {
-                syncNotice.setMessage('Pebble Sync: No new notes to import.');
+            const candidates = await this.collectPushCandidates(profile);
+            if (candidates.length === 0) {
+                pushNotice.setMessage('Pebble Sync: No local changes to push.');
                 return;
             }
 
-            syncNotice.setMessage(`Pebble Sync: Importing ${notes.length} notes...`);
-            await this.ensureFolder(targetFolder);
-
-            const triggerTags = new Set((settings.atomicNotesTags || '')
-                .split(',')
-                .map(tag => tag.trim().toLowerCase())
-                .filter(Boolean));
-
-            let createdCount = 0;
-            let updatedCount = 0;
-            let skippedDuplicates = 0;
-            let skippedExisting = 0;
-
-            for (const note of notes) {
-                const dedupeKey = this.makeDedupeKey(note);
-                if (!force && storedKeys.has(dedupeKey)) {
-                    skippedDuplicates++;
-                    continue;
+            run = this.startRun('push', profile);
+            const stats = run.counts;
+            pushNotice.setMessage(`Pebble Sync: Pushing ${candidates.length} notes...`);
+            for (const candidate of candidates) {
+                throwIfCancelled(signal);
+                const item: RunItem = { key: candidate.itemId ?? candidate.file.path, title: candidate.file.basename, outcome: candidate.itemId ? 'updated' : 'created', path: candidate.file.path, note: {} };
+                try {
+                    item.note = await this.pushNote(profile, apiUrl, candidate);
+                } catch (error) {
+                    if (error instanceof SyncCancelledError) throw error;
+                    console.error(`Pebble Sync: Failed to push ${candidate.file.path}`, error);
+                    item.outcome = 'failed';
+                    item.error = this.normalizeError(error);
                 }
+                addRunItem(run, item);
+            }
 
-                const noteMoment = this.resolveNoteMoment(note.createdAt);
-                const baseName = this.resolveBaseName(note, triggerTags);
-                const relativePath = `${baseName} ${noteMoment.format('dddd, MMMM Do YYYY HH-mm')}.md`;
-                const fileName = normalizePath(targetFolder ? `${targetFolder}/${relativePath}` : relativePath);
-                const existingFile = this.app.vault.getAbstractFileByPath(fileName);
+            const details = [];
+            if (stats.created > 0) details.push(`created ${stats.created} notes on the server`);
+            if (stats.updated > 0) details.push(`updated ${stats.updated} notes on the server`);
+            if (stats.failed > 0) details.push(`failed to push ${stats.failed} notes (see console)`);
+            summary = `Pebble Sync: Push complete. ${details.join(', ')}.`;
+            pushNotice.setMessage(summary);
+        } catch (error) {
+            console.error('Pebble Sync push error', error);
+            runError = this.normalizeError(error);
+            summary = `Pebble Sync: ${runError}`;
+            pushNotice.setMessage(summary);
+            run = run ?? this.startRun('push', profile);
+        } finally {
+            if (!runError && (run?.counts.failed ?? 0) === 0) {
+                void setTimeout(() => pushNotice.hide(), 5000);
+            }
+            if (run) await this.finishRun(run, summary, runError);
+        }
+    }
 
-                if (existingFile && !(settings.overwriteExisting || force)) {
-                    storedKeys.add(dedupeKey);
-                    keysMutated = true;
-                    skippedExisting++;
-                    continue;
-                }
+    /**
+     * Finds imported notes whose body changed since they were last synced, plus untracked notes
+     * in the atomic notes folder or carrying the push tag.
+     */
+    async collectPushCandidates(profile: SyncProfile): Promise<PushCandidate[]> {
+        const settings = this.settings;
+        const folder = normalizePath((profile.atomicNotesFolder || '').trim());
+        // Untracked notes carrying the push tag go to the first profile only, never to all of them.
+        const isFirstProfile = settings.profiles[0] === profile;
+        const pushTag = settings.pushTag.trim().replace(/^#/, '').toLowerCase();
+        const candidates: PushCandidate[] = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const cache = this.app.metadataCache.getFileCache(file);
+            const frontmatter = cache?.frontmatter;
+            if (frontmatter?.[PEBBLE_CONFLICT_KEY] || frontmatter?.[PEBBLE_TYPE_KEY]) continue;
+            if (!belongsToProfile(frontmatter?.[PEBBLE_PROFILE_KEY], profile.id) && frontmatter?.[PEBBLE_ID_KEY] !== undefined) continue;
+
+            const pebbleId: unknown = frontmatter?.[PEBBLE_ID_KEY];
+            const tags = (cache ? getAllTags(cache) ?? [] : []).map(tag => tag.replace(/^#/, ''));
+
+            if (typeof pebbleId === 'string' || typeof pebbleId === 'number') {
+                const localHash: unknown = frontmatter?.[PEBBLE_LOCAL_HASH_KEY];
+                if (typeof localHash !== 'string') continue;
+                const content = await this.app.vault.read(file);
+                if (hashContent(stripFrontmatter(content).trim()) === localHash) continue;
+                candidates.push({ file, itemId: String(pebbleId), content, tags });
+                continue;
+            }
+            // Imported from an item without an ID, so there is nothing on the server to update.
+            if (frontmatter?.[PEBBLE_HASH_KEY] !== undefined) continue;
 
-                const templateData: TemplateData = {
-                    content: note.markdown,
-                    date: noteMoment.format('YYYY-MM-DD'),
-                    time: noteMoment.format('HH:mm'),
-                    fullDateTime: noteMoment.format('YYYY-MM-DD HH:mm'),
-                    tags: note.tags || []
-                };
-                const fileContent = this.processTemplate(settings.atomicNotesTemplate, templateData);
+            const inFolder = settings.pushNewInFolder && !!folder && file.path.startsWith(`${folder}/`) && !this.isImporterFile(file.path);
+            const hasPushTag = isFirstProfile && !!pushTag && tags.some(tag => tag.toLowerCase() === pushTag);
+            if (inFolder || hasPushTag) {
+                candidates.push({ file, content: await this.app.vault.read(file), tags });
+            }
+        }
 
-                let atomicFile: TFile;
-                if (existingFile instanceof TFile) {
-                    await this.app.vault.modify(existingFile, fileContent);
-                    atomicFile = existingFile;
-                    updatedCount++;
-                } else {
-                    atomicFile = await this.app.vault.create(fileName, fileContent);
-                    createdCount++;
-                }
+        return candidates;
+    }
 
-                storedKeys.add(dedupeKey);
-                keysMutated = true;
+    /**
+     * Whether the importer writes the file without a Pebble ID: the task file, review notes,
+     * bookmark and checklist notes, and tag indexes. These are never pushed as new captures.
+     */
+    isImporterFile(path: string): boolean {
+        const settings = this.settings;
+        if (path === this.getTaskFilePath()) return true;
+        const folders = [settings.reviewFolder, settings.bookmarkFolder, settings.checklistFolder];
+        if (settings.tagIndexEnabled) folders.push(settings.tagIndexFolder.trim() || DEFAULT_SETTINGS.tagIndexFolder);
+        return folders.some(folder => !!folder.trim() && path.startsWith(`${normalizePath(folder.trim())}/`));
+    }
 
-                if (settings.linkBackToDailyNote) {
-                    await this.linkToDailyNote(atomicFile, noteMoment);
-                }
-            }
+    /** Sends the note to the server and returns the item as pushed. */
+    async pushNote(profile: SyncProfile, apiUrl: string, candidate: PushCandidate): Promise<PebbleNote> {
+        const pushTag = this.settings.pushTag.trim().replace(/^#/, '').toLowerCase();
+        const templates = [profile.atomicNotesTemplate, ...this.settings.routingRules.map(rule => rule.template).filter(t => t.trim())];
+        const markdown = this.restoreServerMarkdown(candidate.file, this.extractTemplateContent(templates, candidate.content));
+        const ruleFrontmatter = this.settings.routingRules.map(rule => rule.frontmatter).filter(yaml => yaml.trim()).map(yaml => `---\n${yaml.trim()}\n---\n`);
+        const templateTags = this.getTemplateTags([...templates, ...ruleFrontmatter]);
+        const body: PebbleNote = {
+            type: 'note',
+            markdown,
+            createdAt: new Date(candidate.file.stat.ctime).toISOString(),
+            tags: candidate.tags.filter(tag => tag.toLowerCase() !== pushTag && !templateTags.has(tag.toLowerCase()))
+        };
 
-            if (keysMutated) {
-                const maxKeys = Number.isFinite(settings.maxImportedKeys) && settings.maxImportedKeys > 0
-                    ? settings.maxImportedKeys
-                    : DEFAULT_SETTINGS.maxImportedKeys;
-                this.settings.importedKeys = Array.from(storedKeys).slice(-maxKeys);
-                await this.saveSettings();
+        const response = await this.request({
+            url: candidate.itemId
+                ? `${apiUrl}/api/sync/notes/${encodeURIComponent(candidate.itemId)}`
+                : `${apiUrl}/api/sync/notes`,
+            method: candidate.itemId ? 'PUT' : 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-API-Key': profile.apiKey
+            },
+            body: JSON.stringify(body)
+        });
+
+        let itemId = candidate.itemId;
+        if (!itemId) {
+            const created = (response.json as { item?: PebbleNote } & Partial<PebbleNote>) ?? {};
+            itemId = this.getItemId(created.item ?? created as PebbleNote);
+            if (!itemId) {
+                throw new Error('Server did not return an ID for the pushed note');
             }
+        }
 
-            let message = 'Pebble Sync: Import complete.';
-            const details = [];
-            if (createdCount > 0) details.push(`created ${createdCount} new notes`);
-            if (updatedCount > 0) details.push(`updated ${updatedCount} notes`);
-            if (skippedDuplicates > 0) details.push(`skipped ${skippedDuplicates} duplicates`);
-            if (skippedExisting > 0) details.push(`skipped ${skippedExisting} existing notes`);
+        // Record the pushed state so the next pull or push sees this note as unchanged.
+        await this.stampPebbleIdentity(candidate.file, itemId, hashContent(markdown), candidate.content, profile);
+        return { ...body, id: itemId };
+    }
 
-            if (details.length === 0) {
-                message = 'Pebble Sync: Nothing new to import.';
-            } else {
-                message += ` ${details.join(', ')}.`;
-            }
+    /**
+     * Undoes the links the importer added in the vault, so the server gets back its own attachment
+     * URLs and no auto-inserted links.
+     */
+    restoreServerMarkdown(file: TFile, markdown: string): string {
+        const recorded: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[PEBBLE_REWRITES_KEY];
+        if (typeof recorded !== 'object' || recorded === null) return markdown;
+        let restored = markdown;
+        for (const link of Object.keys(recorded)) {
+            const original: unknown = (recorded as Record<string, unknown>)[link];
+            if (typeof original === 'string') restored = restored.split(link).join(original);
+        }
+        // Attachments the importer appended leave empty lines behind.
+        return restored.replace(/\n{3,}/g, '\n\n').trim();
+    }
 
-            syncNotice.setMessage(message);
-        } catch (error) {
-            console.error('Pebble Sync import error', error);
-            syncNotice.setMessage(`Pebble Sync: ${this.normalizeError(error)}`);
-            importFailed = true;
-        } finally {
-            if (!importFailed) {
-                void setTimeout(() => syncNotice.hide(), 5000);
+    /**
+     * Tags the templates write on their own, like `pebble` in the default frontmatter. Tags filled
+     * in by variables came from the item and are left out.
+     */
+    getTemplateTags(templates: string[]): Set<string> {
+        const tags = new Set<string>();
+        for (const template of templates) {
+            const literal = template.replace(/{{[\s\S]*?}}/g, '');
+            const yaml = /^---\r?\n([\s\S]*?)\r?\n---/.exec(literal)?.[1] ?? '';
+            try {
+                const frontmatter: unknown = yaml.trim() ? parseYaml(yaml) : null;
+                if (frontmatter && typeof frontmatter === 'object') {
+                    for (const tag of parseFrontMatterTags(frontmatter as FrontMatterCache) ?? []) tags.add(tag.replace(/^#/, '').toLowerCase());
+                }
+            } catch {
+                // A template with invalid frontmatter writes no tags there.
             }
+            const inlineTag = /(?:^|\s)#([^\s#]+)/g;
+            const body = stripFrontmatter(literal);
+            for (let match = inlineTag.exec(body); match; match = inlineTag.exec(body)) tags.add(match[1].toLowerCase());
         }
+        return tags;
     }
 
-    async testApiConnection() {
-        const settings = this.settings;
-        const apiUrl = this.normalizeApiUrl(settings.apiUrl);
+    /**
+     * Reverses the atomic note template: strips the frontmatter and any text the first matching
+     * template wraps around {{content}}, leaving the original markdown.
+     */
+    extractTemplateContent(templates: string[], text: string): string {
+        const body = stripFrontmatter(text);
+        const toPattern = (piece: string) => escapeRegExp(piece.trim()).replace(/\\{\\{[^}]*\\}\\}/g, '[\\s\\S]*?');
+
+        for (const template of templates) {
+            const pieces = stripFrontmatter(template).split(/{{content}}/i);
+            if (pieces.length !== 2) continue;
+            const match = new RegExp(`^\\s*${toPattern(pieces[0])}\\s*([\\s\\S]*?)\\s*${toPattern(pieces[1])}\\s*$`).exec(body);
+            if (match) return match[1].trim();
+        }
+        return body.trim();
+    }
+
+    async testApiConnection(profile: SyncProfile) {
+        const apiUrl = this.normalizeApiUrl(profile.apiUrl);
 
-        if (!apiUrl || !settings.apiKey) {
+        if (!apiUrl || !profile.apiKey) {
             new Notice('API URL and API key must be set before testing');
             return;
         }
@@ -349,7 +2195,7 @@ export default class PebbleSyncPlugin extends Plugin {
                 method: 'GET',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-API-Key': settings.apiKey
+                    'X-API-Key': profile.apiKey
                 }
             });
             notice.setMessage('API connection successful!');
@@ -359,20 +2205,55 @@ export default class PebbleSyncPlugin extends Plugin {
         }
     }
 
-    async linkToDailyNote(fileToLink: TFile, noteMoment: moment.Moment) {
-        const cfg = this.getDailyConfig();
-        const dailyFileName = `${noteMoment.format(cfg.format)}.md`;
-        const dailyPath = normalizePath((cfg.folder ? `${cfg.folder}/` : '') + dailyFileName);
+    async linkToDailyNote(fileToLink: TFile, noteMoment: moment.Moment, content: string) {
+        const dailyPaths: string[] = [];
+        for (const period of this.getPeriodicTargets()) {
+            const dailyFile = await this.insertDailyEntry(dailyPath => this.buildDailyEntry(fileToLink, dailyPath, noteMoment, content), noteMoment, period);
+            if (dailyFile) dailyPaths.push(dailyFile.path);
+        }
+        if (dailyPaths.length > 0) {
+            this.dailyEntryIndex.set(fileToLink.path, dailyPaths);
+        }
+    }
+
+    buildDailyEntry(file: TFile, dailyPath: string, noteMoment: moment.Moment, content: string): string {
+        const link = this.app.fileManager.generateMarkdownLink(file, dailyPath, '', '');
+        const time = noteMoment.format('HH:mm');
+        switch (this.settings.dailyEntryStyle) {
+            case 'link':
+                return link;
+            case 'list':
+                return `- ${time} ${link}`;
+            case 'callout':
+                // The trailing blank line keeps consecutive callouts from merging into one.
+                return [`> [!note] ${time} ${link}`, ...content.trim().split('\n').map(line => `> ${line}`.trimEnd()), ''].join('\n');
+            default:
+                // Inline entries never reach this point for atomic notes, so they embed like the default.
+                return `!${link}`;
+        }
+    }
 
-        const dailyFile = await this.ensureDailyFile(dailyPath, cfg);
-        if (!dailyFile) return;
+    /**
+     * Inserts an entry under the section heading of the periodic note for the given moment, creating
+     * the note and heading when needed. Entries are kept in capture order, and entries already
+     * present in the note are not added again. Unmarked entries go after the existing ones. Marked
+     * entries can carry the block ID of their item, so they can be found when it is removed.
+     */
+    async insertDailyEntry(entry: string | ((dailyPath: string) => string), noteMoment: moment.Moment, period: NotePeriod = 'day', marked = true, blockId?: string): Promise<TFile | null> {
+        const cfg = this.getPeriodicConfig(period);
+        const dailyPath = this.getDailyPath(noteMoment, cfg);
+
+        // Weekly and longer notes are dated by the start of their period, like the Periodic Notes plugin does.
+        const noteDay = this.getNoteDay(noteMoment);
+        const dailyFile = await this.ensureDailyFile(dailyPath, cfg, period === 'day' ? noteDay : noteDay.clone().startOf(period), noteMoment);
+        if (!dailyFile) return null;
 
         const currentContent = await this.app.vault.read(dailyFile);
-        const markdownLink = this.app.fileManager.generateMarkdownLink(fileToLink, dailyFile.path, '', '');
-        const embedLink = `!${markdownLink}`;
-        if (currentContent.includes(embedLink)) return;
+        const entryText = typeof entry === 'function' ? entry(dailyFile.path) : entry;
+        if (!entryText || stripMarkers(currentContent).includes(entryText)) return dailyFile;
+        const entryLines = marked ? markEntry(entryText, noteMoment.toISOString(), blockId) : entryText.split('\n');
 
-        const headingSetting = this.settings.sectionHeading.trim();
+        const headingSetting = this.settings.periodicNotes[period].heading.trim();
         const headingText = headingSetting.replace(/^#+\s*/, '').trim() || 'Pebble Imports';
         const headingLine = headingSetting || `## ${headingText}`;
         const headingPattern = '^#+\\s+' + escapeRegExp(headingText) + '\\s*$';
@@ -381,22 +2262,301 @@ export default class PebbleSyncPlugin extends Plugin {
         if (headingRegex.test(currentContent)) {
             const lines = currentContent.split('\n');
             const headingIndex = lines.findIndex(line => headingRegex.test(line));
-            let insertIndex = headingIndex + 1;
+            const section = findSection(lines, headingIndex);
+            const updated = insertSorted(lines, section.start, section.end, entryLines, marked ? noteMoment.valueOf() : Number.POSITIVE_INFINITY);
+            await this.app.vault.modify(dailyFile, updated.join('\n'));
+        } else {
+            const snippet = `\n\n${headingLine}\n${entryLines.join('\n')}\n`;
+            await this.app.vault.append(dailyFile, snippet);
+        }
+        return dailyFile;
+    }
+
+    /**
+     * Applies deletions and archives from the server to the notes they were imported into. Notes
+     * edited in the vault since the import are left for the user to confirm.
+     */
+    async processRemovals(removals: Removal[], context: ImportContext, stats: ImportStats) {
+        for (const removal of removals) {
+            const file = context.notesById.get(removal.id);
+            if (!file) {
+                try {
+                    if (await this.applyItemRemoval(removal)) stats.removed++;
+                } catch (error) {
+                    console.error(`Pebble Sync: Failed to apply the server ${removal.kind === 'deleted' ? 'deletion' : 'archive'} of item ${removal.id}`, error);
+                    stats.failed++;
+                }
+                continue;
+            }
+            if (this.isRemovalApplied(file, removal.kind)) continue;
+            try {
+                if (await this.isEditedInVault(file)) {
+                    stats.pendingRemovals.push({ ...removal, file });
+                    continue;
+                }
+                await this.applyRemoval({ ...removal, file });
+                context.notesById.delete(removal.id);
+                stats.removed++;
+            } catch (error) {
+                console.error(`Pebble Sync: Failed to apply the server ${removal.kind === 'deleted' ? 'deletion' : 'archive'} of ${file.path}`, error);
+                stats.failed++;
+            }
+        }
+        await this.dailyEntryIndex.save();
+    }
+
+    /** Asks about removals of notes that were edited in the vault, once the import is done. */
+    confirmRemovals(pending: PendingRemoval[]) {
+        if (pending.length === 0) return;
+        new ConfirmRemovalModal(this.app, pending, removal => this.describeRemovalPolicy(removal.kind), selected => {
+            void this.queueSync('apply-removals', async () => {
+                for (const removal of selected) {
+                    try {
+                        await this.applyRemoval(removal);
+                    } catch (error) {
+                        console.error(`Pebble Sync: Failed to apply the server removal of ${removal.file.path}`, error);
+                    }
+                }
+                await this.dailyEntryIndex.save();
+                if (selected.length > 0) new Notice(`Applied ${selected.length} removal${selected.length === 1 ? '' : 's'}`);
+            });
+        }).open();
+    }
+
+    getRemovalPolicy(kind: RemovalKind): RemovalPolicy {
+        return kind === 'deleted' ? this.settings.deletedPolicy : this.settings.archivedPolicy;
+    }
+
+    describeRemovalPolicy(kind: RemovalKind): string {
+        switch (this.getRemovalPolicy(kind)) {
+            case 'trash': return 'Move to the trash';
+            case 'move': return `Move to ${normalizePath(this.settings.archiveFolder.trim() || 'Pebble/Archive')}`;
+            case 'flag': return 'Mark as archived in the frontmatter';
+            default: return 'Keep';
+        }
+    }
+
+    /** Whether a previous sync already applied the policy, so the same removal isn't applied twice. */
+    isRemovalApplied(file: TFile, kind: RemovalKind): boolean {
+        const policy = this.getRemovalPolicy(kind);
+        if (policy === 'keep') return true;
+        if (policy === 'flag') return this.app.metadataCache.getFileCache(file)?.frontmatter?.archived === true;
+        if (policy === 'move') return file.path.startsWith(`${normalizePath(this.settings.archiveFolder.trim() || 'Pebble/Archive')}/`);
+        return false;
+    }
 
-            while (insertIndex < lines.length && !/^#+\s/.test(lines[insertIndex])) {
-                insertIndex++;
+    /** Whether the note changed since it was imported. Notes without a recorded hash count as edited. */
+    async isEditedInVault(file: TFile): Promise<boolean> {
+        const localHash: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.[PEBBLE_LOCAL_HASH_KEY];
+        if (typeof localHash !== 'string') return true;
+        return hashContent(stripFrontmatter(await this.app.vault.read(file)).trim()) !== localHash;
+    }
+
+    async applyRemoval(removal: PendingRemoval) {
+        const { file } = removal;
+        const policy = this.getRemovalPolicy(removal.kind);
+        if (policy === 'keep') return;
+
+        const entryAction = this.settings.removedEntryAction;
+        if (entryAction !== 'keep') {
+            for (const dailyPath of this.dailyEntryIndex.get(file.path) ?? []) {
+                const dailyFile = this.app.vault.getAbstractFileByPath(dailyPath);
+                if (!(dailyFile instanceof TFile)) continue;
+                const references = this.findReferencesTo(dailyFile, file);
+                if (entryAction === 'remove') await this.removeReferenceLines(dailyFile, references);
+                else await this.strikeReferences(dailyFile, references);
             }
+        }
 
-            const insertion = [embedLink];
-            if (lines[insertIndex - 1]?.trim() !== '') {
-                insertion.unshift('');
+        if (policy === 'trash') {
+            // The entries were handled above, so the delete handler must not clean them up again.
+            this.dailyEntryIndex.delete(file.path);
+            await this.app.fileManager.trashFile(file);
+        } else if (policy === 'move') {
+            const folder = normalizePath(this.settings.archiveFolder.trim() || 'Pebble/Archive');
+            await this.ensureFolder(folder);
+            let path = normalizePath(`${folder}/${file.name}`);
+            for (let counter = 2; this.app.vault.getAbstractFileByPath(path); counter++) {
+                path = normalizePath(`${folder}/${file.basename} ${counter}.${file.extension}`);
             }
-            lines.splice(insertIndex, 0, ...insertion, '');
-            await this.app.vault.modify(dailyFile, lines.join('\n'));
+            await this.app.fileManager.renameFile(file, path);
         } else {
-            const snippet = `\n\n${headingLine}\n${embedLink}\n`;
-            await this.app.vault.append(dailyFile, snippet);
+            await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                frontmatter.archived = true;
+            });
+        }
+    }
+
+    /**
+     * Strikes or removes the inline entries and task lines of an item that has no note of its own.
+     * Returns whether any were found.
+     */
+    async applyItemRemoval(removal: Removal): Promise<boolean> {
+        const blockId = getTaskBlockId(removal.id);
+        const paths = this.dailyEntryIndex.getItem(blockId);
+        const entryAction = this.settings.removedEntryAction;
+        if (!paths || entryAction === 'keep' || this.getRemovalPolicy(removal.kind) === 'keep') return false;
+
+        let found = false;
+        for (const path of paths) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+            const lines = (await this.app.vault.read(file)).split('\n');
+            const ranges = findItemLines(lines, blockId);
+            if (ranges.length === 0) continue;
+            for (const range of ranges) {
+                if (entryAction === 'remove') lines.splice(range.start, range.end - range.start);
+                else for (let i = range.start; i < range.end; i++) lines[i] = strikeLine(lines[i]);
+            }
+            await this.app.vault.modify(file, lines.join('\n'));
+            found = true;
+        }
+        this.dailyEntryIndex.deleteItem(blockId);
+        return found;
+    }
+
+    async onFileRenamed(file: TAbstractFile, oldPath: string) {
+        const index = this.dailyEntryIndex;
+        index.renameDailyPath(oldPath, file.path);
+
+        const dailyPaths = index.get(oldPath);
+        if (dailyPaths && file instanceof TFile) {
+            index.delete(oldPath);
+            index.set(file.path, dailyPaths);
+            if (this.settings.cleanUpDailyEntries) {
+                for (const dailyPath of dailyPaths) {
+                    await this.relinkDailyEntries(dailyPath, oldPath, file);
+                }
+            }
+        }
+        await index.save();
+    }
+
+    async onFileDeleted(file: TAbstractFile) {
+        const dailyPaths = this.dailyEntryIndex.get(file.path);
+        if (!dailyPaths) return;
+        this.dailyEntryIndex.delete(file.path);
+        if (this.settings.cleanUpDailyEntries) {
+            for (const dailyPath of dailyPaths) {
+                await this.removeDailyEntries(dailyPath, file.path);
+            }
+        }
+        await this.dailyEntryIndex.save();
+    }
+
+    /** Links and embeds in the daily note that pointed at a note that no longer exists at that path. */
+    findDeadReferences(dailyFile: TFile, oldPath: string) {
+        const cache = this.app.metadataCache.getFileCache(dailyFile);
+        const target = oldPath.replace(/\.md$/, '');
+        const targetName = target.split('/').pop();
+        return [...(cache?.links ?? []), ...(cache?.embeds ?? [])].filter(ref => {
+            const linkpath = getLinkpath(ref.link);
+            // Links Obsidian already updated, or that now resolve to another note, are left alone.
+            if (this.app.metadataCache.getFirstLinkpathDest(linkpath, dailyFile.path)) return false;
+            const normalized = linkpath.replace(/\.md$/, '');
+            return normalized === target || normalized === targetName;
+        });
+    }
+
+    async relinkDailyEntries(dailyPath: string, oldPath: string, file: TFile) {
+        const dailyFile = this.app.vault.getAbstractFileByPath(dailyPath);
+        if (!(dailyFile instanceof TFile)) return;
+        const references = this.findDeadReferences(dailyFile, oldPath).sort((a, b) => b.position.start.offset - a.position.start.offset);
+        if (references.length === 0) return;
+
+        let content = await this.app.vault.read(dailyFile);
+        for (const reference of references) {
+            const link = `${reference.original.startsWith('!') ? '!' : ''}${this.app.fileManager.generateMarkdownLink(file, dailyPath, '', '')}`;
+            content = content.substring(0, reference.position.start.offset) + link + content.substring(reference.position.end.offset);
+        }
+        await this.app.vault.modify(dailyFile, content);
+    }
+
+    async removeDailyEntries(dailyPath: string, oldPath: string) {
+        const dailyFile = this.app.vault.getAbstractFileByPath(dailyPath);
+        if (!(dailyFile instanceof TFile)) return;
+        await this.removeReferenceLines(dailyFile, this.findDeadReferences(dailyFile, oldPath));
+    }
+
+    /** Links and embeds in the periodic note that lead to the file. */
+    findReferencesTo(dailyFile: TFile, file: TFile): ReferenceCache[] {
+        const cache = this.app.metadataCache.getFileCache(dailyFile);
+        return [...(cache?.links ?? []), ...(cache?.embeds ?? [])]
+            .filter(ref => this.app.metadataCache.getFirstLinkpathDest(getLinkpath(ref.link), dailyFile.path) === file);
+    }
+
+    /** Removes the entries containing the references, along with the rest of each marked entry. */
+    async removeReferenceLines(dailyFile: TFile, references: ReferenceCache[]) {
+        const lineIndexes = [...new Set(references.map(reference => reference.position.start.line))].sort((a, b) => b - a);
+        if (lineIndexes.length === 0) return;
+
+        let lines = (await this.app.vault.read(dailyFile)).split('\n');
+        for (const lineIndex of lineIndexes) {
+            lines = removeEntryAt(lines, lineIndex);
+        }
+        await this.app.vault.modify(dailyFile, lines.join('\n'));
+    }
+
+    /** Strikes the references through. Embeds become plain links so the removed note's content is no longer shown. */
+    async strikeReferences(dailyFile: TFile, references: ReferenceCache[]) {
+        if (references.length === 0) return;
+        let content = await this.app.vault.read(dailyFile);
+        for (const reference of [...references].sort((a, b) => b.position.start.offset - a.position.start.offset)) {
+            const current = content.substring(reference.position.start.offset, reference.position.end.offset);
+            if (current !== reference.original) continue;
+            content = `${content.substring(0, reference.position.start.offset)}~~${current.replace(/^!/, '')}~~${content.substring(reference.position.end.offset)}`;
+        }
+        await this.app.vault.modify(dailyFile, content);
+    }
+
+    getDailyPath(noteMoment: moment.Moment, cfg: PeriodicNoteConfig = this.getPeriodicConfig()): string {
+        const dailyFileName = `${this.getNoteDay(noteMoment).format(cfg.format)}.md`;
+        return normalizePath((cfg.folder ? `${cfg.folder}/` : '') + dailyFileName);
+    }
+
+    getTaskFilePath(): string {
+        const path = normalizePath(this.settings.taskFile.trim() || DEFAULT_SETTINGS.taskFile);
+        return path.endsWith('.md') ? path : `${path}.md`;
+    }
+
+    /**
+     * Rewrites the line of a task imported before, found by its block ID, or by its text for lines
+     * written before tasks had one. Returns null when the task isn't in the file.
+     */
+    async updateTaskLine(path: string, entry: string): Promise<TFile | null> {
+        const blockId = /\s\^[a-z0-9-]+$/.exec(entry)?.[0];
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!blockId || !(file instanceof TFile)) return null;
+
+        const lines = (await this.app.vault.read(file)).split('\n');
+        let index = lines.findIndex(line => line.trimEnd().endsWith(blockId));
+        if (index === -1) index = lines.indexOf(entry.slice(0, -blockId.length));
+        if (index === -1) return null;
+        if (lines[index] !== entry) {
+            lines[index] = entry;
+            await this.app.vault.modify(file, lines.join('\n'));
+        }
+        return file;
+    }
+
+    /** Appends a task line to the task file, creating it when needed. Lines already in the file are not added again. */
+    async appendToTaskFile(entry: string): Promise<TFile> {
+        const path = this.getTaskFilePath();
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (!(existing instanceof TFile)) {
+            const dir = path.substring(0, path.lastIndexOf('/'));
+            if (dir) await this.ensureFolder(dir);
+            return this.app.vault.create(path, `${entry}\n`);
+        }
+        const content = await this.app.vault.read(existing);
+        if (!content.split('\n').includes(entry)) {
+            await this.app.vault.append(existing, `${content && !content.endsWith('\n') ? '\n' : ''}${entry}\n`);
         }
+        return existing;
+    }
+
+    getPeriodicPaths(noteMoment: moment.Moment): string[] {
+        return this.getPeriodicTargets().map(period => this.getDailyPath(noteMoment, this.getPeriodicConfig(period)));
     }
 
     normalizeApiUrl(rawUrl: string): string {
@@ -415,47 +2575,138 @@ export default class PebbleSyncPlugin extends Plugin {
         return url.replace(/\/+$/, '');
     }
 
-    resolveNoteMoment(rawTimestamp: string) {
-        const candidate = moment(rawTimestamp);
-        return candidate.isValid() ? candidate : moment();
+    /** The capture time in the vault's time zone, or null when the timestamp is missing or invalid. */
+    resolveNoteMoment(rawTimestamp: string): moment.Moment | null {
+        const settings = this.settings;
+        const sourceZone = isValidTimeZone(settings.sourceTimezone) ? settings.sourceTimezone : '';
+        const vaultZone = isValidTimeZone(settings.vaultTimezone) ? settings.vaultTimezone : '';
+        const instant = parseTimestamp(rawTimestamp, sourceZone);
+        return instant === null ? null : momentInZone(instant, vaultZone);
+    }
+
+    /** The moment shifted back by the day start, so its date is the day a capture counts toward. */
+    getNoteDay(noteMoment: moment.Moment): moment.Moment {
+        return noteMoment.clone().subtract(toMinutes(this.settings.dayStartsAt) ?? 0, 'minutes');
     }
 
+    /** The title from the title strategy. The tag strategies use the first trigger tag of the note, or the default tag. */
     resolveBaseName(note: PebbleNote, triggerTags: Set<string>): string {
         const tags = new Set((note.tags || []).map(tag => tag.replace(/^#/, '').trim().toLowerCase()));
-        const matchingTag = [...triggerTags].find(tag => tags.has(tag));
+        const tag = [...triggerTags].find(candidate => tags.has(candidate)) ?? this.settings.atomicNotesDefaultTag.trim();
+        return sanitizeFileName(buildTitle(this.settings.titleStrategy, note, tag ? capitalize(tag) : '')) || 'Pebble Note';
+    }
+
+    resolveFirstLineTitle(note: PebbleNote): string {
+        const firstLine = (note.markdown || '').split('\n').find(line => line.trim()) ?? '';
+        return sanitizeFileName(truncateAtWord(stripMarkdown(firstLine))) || 'Pebble Note';
+    }
 
-        if (matchingTag) {
-            const tagName = matchingTag.charAt(0).toUpperCase() + matchingTag.slice(1);
-            return sanitizeFileName(tagName) || 'Pebble Note';
+    /**
+     * Numbers the title when another note in the folder already uses it as its name or an alias,
+     * so titles stay unique in the quick switcher and in links.
+     */
+    makeUniqueTitle(folder: string, title: string, identity: string, context: ImportContext, ownFile?: TFile): string {
+        const owners = new Map<string, string>(); // Lowercased name or alias → item identity, empty for notes without one
+        const parent = folder ? this.app.vault.getAbstractFileByPath(folder) : this.app.vault.getRoot();
+        for (const child of parent instanceof TFolder ? parent.children : []) {
+            if (!(child instanceof TFile) || child.extension !== 'md' || child === ownFile) continue;
+            const frontmatter = this.app.metadataCache.getFileCache(child)?.frontmatter;
+            const pebbleId: unknown = frontmatter?.[PEBBLE_ID_KEY];
+            const owner = typeof pebbleId === 'string' || typeof pebbleId === 'number' ? String(pebbleId) : '';
+            for (const name of [child.basename, ...(parseFrontMatterAliases(frontmatter ?? null) ?? [])]) {
+                owners.set(name.toLowerCase(), owner);
+            }
         }
 
-        const defaultTag = this.settings.atomicNotesDefaultTag.trim();
-        if (defaultTag) {
-            const tagName = defaultTag.charAt(0).toUpperCase() + defaultTag.slice(1);
-            return sanitizeFileName(tagName) || 'Pebble Note';
+        for (let counter = 1; ; counter++) {
+            const candidate = counter === 1 ? title : `${title} ${counter}`;
+            const key = candidate.toLowerCase();
+            const claimedBy = context.claimedTitles.get(`${folder}/${key}`);
+            if (claimedBy !== undefined && claimedBy !== identity) continue;
+            const owner = owners.get(key);
+            if (owner !== undefined && owner !== identity) continue;
+            context.claimedTitles.set(`${folder}/${key}`, identity);
+            return candidate;
         }
+    }
+
+    async addAlias(file: TFile, alias: string) {
+        if (!alias) return;
+        await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => this.setAliasField(frontmatter, alias));
+    }
 
-        const firstLine = (note.markdown || '').split('\n')[0]?.trim();
-        if (firstLine) {
-            const candidate = sanitizeFileName(firstLine.substring(0, 50) || 'Pebble Note');
-            return candidate || 'Pebble Note';
+    setAliasField(frontmatter: Record<string, unknown>, alias: string) {
+        const aliases = parseFrontMatterAliases(frontmatter) ?? [];
+        if (alias && !aliases.includes(alias)) frontmatter.aliases = [...aliases, alias];
+    }
+
+    /** Links mentions of existing notes when auto-linking is on. `selfPath` is the note being updated, which never links to itself. */
+    linkMentions(content: string, context: ImportContext, selfPath: string | undefined, rewrites: Map<string, string>): string {
+        if (!this.settings.autoLinkEnabled || !content) return content;
+        const linker = context.linker ?? (context.linker = createLinker(this.buildLinkTargets()));
+        return linker(content, selfPath, rewrites);
+    }
+
+    /**
+     * Names and aliases of the vault's notes that auto-linking may use. Names shared by several
+     * notes are left out, since a link to them would be ambiguous.
+     */
+    buildLinkTargets(): LinkTarget[] {
+        const minLength = Math.max(1, this.settings.autoLinkMinLength);
+        const excluded = new Set(this.settings.autoLinkExclusions.split(/[,\n]/).map(name => name.trim().toLowerCase()).filter(Boolean));
+        const targets = new Map<string, LinkTarget | null>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+            const linktext = this.app.metadataCache.fileToLinktext(file, '');
+            for (const title of new Set([file.basename, ...(parseFrontMatterAliases(frontmatter) ?? [])])) {
+                const name = title.trim();
+                if (name.length < minLength || excluded.has(name.toLowerCase())) continue;
+                const existing = targets.get(name);
+                targets.set(name, existing === undefined || existing?.path === file.path ? { title: name, linktext, path: file.path } : null);
+            }
+        }
+        const unique: LinkTarget[] = [];
+        for (const target of targets.values()) {
+            if (target) unique.push(target);
         }
+        return unique;
+    }
+
+    getItemId(note: PebbleNote): string {
+        return note.id || note.uuid || note.key || '';
+    }
 
-        return 'Pebble Note';
+    async makeDedupeKey(note: PebbleNote): Promise<string> {
+        const timestamp = typeof note.createdAt === 'string' ? note.createdAt : '';
+        return sha256Hex(JSON.stringify([timestamp, this.getItemId(note), getItemSignature(note)]));
     }
 
-    makeDedupeKey(note: PebbleNote): string {
+    /** The key format stored in data.json before the dedupe index existed, used to recognise migrated entries. */
+    makeLegacyDedupeKey(note: PebbleNote): string {
         const timestamp = typeof note.createdAt === 'string' ? note.createdAt : '';
-        const identifier = note.id || note.uuid || note.key || '';
+        const identifier = this.getItemId(note);
         const hash = hashContent(note.markdown || '');
         return [timestamp, identifier, hash].filter(Boolean).join('|');
     }
 
+    /** Sends an API request through the retry layer, cancelled together with the running sync. */
+    request(request: RequestUrlParam, retries?: number): Promise<RequestUrlResponse> {
+        return requestWithRetry(request, {
+            retries,
+            signal: this.sync.signal,
+            onRetry: (attempt, delayMs, reason) => console.warn(`Pebble Sync: ${reason}, retry ${attempt} in ${Math.round(delayMs / 1000)}s`)
+        });
+    }
+
     normalizeError(error: unknown): string {
         if (!error) {
             return 'Unknown error during import.';
         }
 
+        if (error instanceof SyncCancelledError) {
+            return 'Sync cancelled.';
+        }
+
         if (typeof error === 'string') {
             return error;
         }
@@ -492,7 +2743,12 @@ export default class PebbleSyncPlugin extends Plugin {
         return 'Import failed due to an unexpected error.';
     }
 
-    async ensureDailyFile(path: string, dailyConfig: DailyConfig): Promise<TFile | null> {
+    /**
+     * Returns the periodic note, creating it from the configured template when it doesn't exist.
+     * Template variables are filled in for the note's date and the capture time, and Templater runs
+     * when installed.
+     */
+    async ensureDailyFile(path: string, dailyConfig: PeriodicNoteConfig, noteMoment: moment.Moment, captureMoment: moment.Moment): Promise<TFile | null> {
         let file = this.app.vault.getAbstractFileByPath(path);
         if (!file) {
             const dir = path.substring(0, path.lastIndexOf('/'));
@@ -503,10 +2759,21 @@ export default class PebbleSyncPlugin extends Plugin {
                 const templatePath = normalizePath(dailyConfig.template + ".md");
                 const templateFile = this.app.vault.getAbstractFileByPath(templatePath);
                 if (templateFile instanceof TFile) {
-                    initialContent = await this.app.vault.read(templateFile);
+                    const title = path.substring(path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+                    initialContent = renderPeriodicTemplate(await this.app.vault.read(templateFile), noteMoment, dailyConfig.format, title, captureMoment);
+                } else {
+                    console.warn(`Pebble Sync: Template ${templatePath} not found`);
                 }
             }
             file = await this.app.vault.create(path, initialContent);
+            if (initialContent && file instanceof TFile) {
+                try {
+                    await runTemplater(this.app, file);
+                } catch (error) {
+                    // The note is still usable with the template's commands left in.
+                    console.error('Pebble Sync: Templater failed on the new note', error);
+                }
+            }
         }
         return file instanceof TFile ? file : null;
     }
@@ -523,6 +2790,7 @@ export default class PebbleSyncPlugin extends Plugin {
 
 class PebbleSyncSettingTab extends PluginSettingTab {
     plugin: PebbleSyncPlugin;
+    profileId = DEFAULT_PROFILE_ID; // The profile being edited
 
     constructor(app: App, plugin: PebbleSyncPlugin) {
         super(app, plugin);
@@ -535,9 +2803,24 @@ class PebbleSyncSettingTab extends PluginSettingTab {
 
         new Setting(containerEl).setName('Sync').setHeading();
 
+        // --- Profiles ---
+        const profiles = this.plugin.settings.profiles;
+        const profile = this.plugin.getProfile(this.profileId) ?? profiles[0];
+        this.profileId = profile.id;
+        new Setting(containerEl).setName('Profiles').setHeading();
+        new Setting(containerEl).setName('Profile').setDesc('Each profile syncs one server with its own API settings, schedule, folder, template and import history. All other settings are shared').addDropdown(d => {
+            for (const option of profiles) d.addOption(option.id, option.name);
+            d.setValue(profile.id).onChange(v => { this.profileId = v; this.display(); });
+        }).addButton(b => b.setButtonText('Add profile').onClick(async () => { this.profileId = (await this.plugin.addProfile()).id; this.display(); }));
+        new Setting(containerEl).setName('Profile name').setDesc('Renamed commands show the new name after Obsidian restarts').addText(t => t.setValue(profile.name).onChange(async v => { profile.name = v.trim() || profile.name; await this.plugin.saveSettings(); }));
+        // The default profile owns notes imported before profiles existed, so it can't be deleted.
+        if (profile.id !== DEFAULT_PROFILE_ID) {
+            new Setting(containerEl).setName('Delete profile').setDesc('Removes the profile and its schedule. Imported notes and the import history file stay in place').addButton(b => b.setButtonText('Delete').setWarning().onClick(async () => { await this.plugin.deleteProfile(profile); this.display(); }));
+        }
+
         // --- General API settings ---
         new Setting(containerEl).setName('API configuration').setHeading();
-        new Setting(containerEl).setName('API URL').addText(t => t.setPlaceholder('Enter API URL').setValue(this.plugin.settings.apiUrl).onChange(async v => { this.plugin.settings.apiUrl = v.trim(); await this.plugin.saveSettings(); }));
+        new Setting(containerEl).setName('API URL').addText(t => t.setPlaceholder('Enter API URL').setValue(profile.apiUrl).onChange(async v => { profile.apiUrl = v.trim(); await this.plugin.saveSettings(); }));
 
         new Setting(containerEl)
             .setName('API key')
@@ -545,9 +2828,9 @@ class PebbleSyncSettingTab extends PluginSettingTab {
             .addText(text => {
                 text
                     .setPlaceholder('Enter your API key')
-                    .setValue(this.plugin.settings.apiKey)
+                    .setValue(profile.apiKey)
                     .onChange(async (value) => {
-                        this.plugin.settings.apiKey = value.trim();
+                        profile.apiKey = value.trim();
                         await this.plugin.saveSettings();
                     });
                 text.inputEl.type = 'password';
@@ -558,51 +2841,387 @@ class PebbleSyncSettingTab extends PluginSettingTab {
             .setDesc('Click to verify that your API URL and key are working correctly')
             .addButton(button => {
                 button.setButtonText('Test');
-                button.onClick(() => { void this.plugin.testApiConnection(); });
+                button.onClick(() => { void this.plugin.testApiConnection(profile); });
             });
 
+        new Setting(containerEl).setName('Incremental sync').setDesc('Only fetch notes added since the last successful sync, one page at a time').addToggle(t => t.setValue(this.plugin.settings.incrementalSync).onChange(async v => { this.plugin.settings.incrementalSync = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.incrementalSync) {
+            new Setting(containerEl).setName('Page size').setDesc('Number of notes requested per page').addText(t => t.setPlaceholder('100').setValue(String(this.plugin.settings.syncPageSize)).onChange(async v => { this.plugin.settings.syncPageSize = parseInt(v, 10) || DEFAULT_SETTINGS.syncPageSize; await this.plugin.saveSettings(); }));
+            new Setting(containerEl)
+                .setName('Reset sync position')
+                .setDesc('Forget the stored cursor so the next sync starts from the beginning of the history')
+                .addButton(button => {
+                    button.setButtonText('Reset');
+                    button.onClick(async () => {
+                        await this.plugin.resetSyncCursor(profile);
+                        new Notice('Sync position reset');
+                    });
+                });
+        }
+
+        new Setting(containerEl).setName('Acknowledge imports').setDesc('Tell the server which notes were written to the vault. Notes that fail to import are never acknowledged').addToggle(t => t.setValue(this.plugin.settings.acknowledgeImports).onChange(async v => { this.plugin.settings.acknowledgeImports = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.acknowledgeImports) {
+            new Setting(containerEl).setName('After acknowledgement').setDesc('What the server should do with acknowledged notes').addDropdown(d => d
+                .addOption('mark-synced', 'Mark as synced')
+                .addOption('delete', 'Delete from server')
+                .addOption('keep', 'Keep unchanged')
+                .setValue(this.plugin.settings.ackAction)
+                .onChange(async v => { this.plugin.settings.ackAction = v as AckAction; await this.plugin.saveSettings(); }));
+        }
+
         // --- Automation Settings ---
         new Setting(containerEl).setName('Automation').setHeading();
-        new Setting(containerEl).setName('Run on startup').setDesc('Automatically sync when Obsidian starts').addToggle(t => t.setValue(this.plugin.settings.autoRunOnStartup).onChange(async v => { this.plugin.settings.autoRunOnStartup = v; await this.plugin.saveSettings(); }));
-        new Setting(containerEl).setName('Automatic sync interval').setDesc('Time in minutes between automatic syncs. Set to 0 to disable').addText(t => t.setPlaceholder('0').setValue(String(this.plugin.settings.autoRunInterval)).onChange(async v => { this.plugin.settings.autoRunInterval = parseInt(v, 10) || 0; await this.plugin.saveSettings(); this.plugin.setupAutoRun(); }));
+        new Setting(containerEl).setName('Run on startup').setDesc('Automatically sync this profile when Obsidian starts').addToggle(t => t.setValue(profile.autoRunOnStartup).onChange(async v => { profile.autoRunOnStartup = v; await this.plugin.saveSettings(); }));
+        new Setting(containerEl).setName('Automatic sync interval').setDesc('Time in minutes between automatic syncs of this profile. Set to 0 to disable').addText(t => t.setPlaceholder('0').setValue(String(profile.autoRunInterval)).onChange(async v => { profile.autoRunInterval = parseInt(v, 10) || 0; await this.plugin.saveSettings(); this.plugin.setupAutoRun(); }));
 
         // --- Atomic Note Settings ---
         new Setting(containerEl).setName('Atomic notes').setHeading();
         new Setting(containerEl).setName('Create atomic notes for imports').setDesc('This must be enabled for the plugin to work').addToggle(t => t.setValue(this.plugin.settings.atomicNotesEnabled).onChange(async v => { this.plugin.settings.atomicNotesEnabled = v; await this.plugin.saveSettings(); this.display(); }));
 
         if (this.plugin.settings.atomicNotesEnabled) {
-            new Setting(containerEl).setName('Folder for atomic notes').setDesc('Folder where atomic notes will be created').addText(t => t.setPlaceholder('Pebble/ideas').setValue(this.plugin.settings.atomicNotesFolder).onChange(async v => { this.plugin.settings.atomicNotesFolder = v.trim(); await this.plugin.saveSettings(); }));
-            new Setting(containerEl).setName('Trigger tags for special titles').setDesc('Comma-separated list of tags that trigger special titles').addText(t => t.setPlaceholder('Idea, thought, fleeting').setValue(this.plugin.settings.atomicNotesTags).onChange(async v => { this.plugin.settings.atomicNotesTags = v; await this.plugin.saveSettings(); }));
-            new Setting(containerEl).setName('Default tag for title').setDesc('If no trigger tags are found, use this tag for the title. If empty, the first line of the note is used').addText(t => t.setPlaceholder('Pebble').setValue(this.plugin.settings.atomicNotesDefaultTag).onChange(async v => { this.plugin.settings.atomicNotesDefaultTag = v.trim(); await this.plugin.saveSettings(); }));
-            new Setting(containerEl).setName('Atomic note template').setDesc('available variables: {{content}}, {{date}}, {{time}}, {{fullDateTime}}, {{tags}} (comma-separated string)').addTextArea(text => {
-                text.setValue(this.plugin.settings.atomicNotesTemplate).onChange(async (v) => { this.plugin.settings.atomicNotesTemplate = v; await this.plugin.saveSettings(); });
+            new Setting(containerEl).setName('Folder for atomic notes').setDesc('Folder where atomic notes will be created').addText(t => t.setPlaceholder('Pebble/ideas').setValue(profile.atomicNotesFolder).onChange(async v => { profile.atomicNotesFolder = v.trim(); await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Title').setDesc('Where the title of each note comes from. When the capture has none, the first sentence is used, then the tag').addDropdown(d => {
+                for (const strategy of Object.keys(TITLE_STRATEGY_LABELS) as TitleStrategy[]) d.addOption(strategy, TITLE_STRATEGY_LABELS[strategy]);
+                d.setValue(this.plugin.settings.titleStrategy).onChange(async v => { this.plugin.settings.titleStrategy = v as TitleStrategy; await this.plugin.saveSettings(); });
+            });
+            new Setting(containerEl).setName('Add the title as an alias').setDesc('Store the title in the aliases frontmatter so the quick switcher and link suggestions find the note by it').addToggle(t => t.setValue(this.plugin.settings.titleAlias).onChange(async v => { this.plugin.settings.titleAlias = v; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Trigger tags for special titles').setDesc('Comma-separated list of tags used by the tag titles').addText(t => t.setPlaceholder('Idea, thought, fleeting').setValue(this.plugin.settings.atomicNotesTags).onChange(async v => { this.plugin.settings.atomicNotesTags = v; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Default tag for title').setDesc('Used by the tag titles when the note has none of the trigger tags').addText(t => t.setPlaceholder('Pebble').setValue(this.plugin.settings.atomicNotesDefaultTag).onChange(async v => { this.plugin.settings.atomicNotesDefaultTag = v.trim(); await this.plugin.saveSettings(); }));
+            const templateSetting = new Setting(containerEl).setName('Atomic note template').setDesc('available variables: {{content}}, {{date}}, {{time}}, {{fullDateTime}}, {{tags}} and every field of the Pebble item, e.g. {{id}}. Use {{date:FORMAT}} for custom dates, {{#if tags}}…{{/if}}, {{#each tags}}{{this}}{{/each}} and filters such as {{tags | yaml}}, lower, upper, slug, join, default');
+            const templateErrorEl = templateSetting.descEl.createDiv({ cls: 'pebble-sync-template-error' });
+            const showTemplateError = (value: string) => templateErrorEl.setText(validateTemplate(value) ?? '');
+            templateSetting.addTextArea(text => {
+                text.setValue(profile.atomicNotesTemplate).onChange(async (v) => { showTemplateError(v); profile.atomicNotesTemplate = v; await this.plugin.saveSettings(); });
                 text.inputEl.rows = 8;
                 text.inputEl.addClass('pebble-sync-textarea');
             });
-            new Setting(containerEl).setName('Overwrite on force re-import').setDesc('Enable this to allow the force re-import command to overwrite existing notes with the same name').addToggle(t => t.setValue(this.plugin.settings.overwriteExisting).onChange(async v => { this.plugin.settings.overwriteExisting = v; await this.plugin.saveSettings(); }));
-                new Setting(containerEl)
-                .setName('Forget imported history')
-                .setDesc('Clears the deduplication log so every note is eligible for import again')
-                .addButton(button => {
-                    button.setButtonText('Clear');
-                    button.onClick(async () => {
-                        this.plugin.settings.importedKeys = [];
-                        await this.plugin.saveSettings();
-                        new Notice('Import history cleared');
-                    });
+            showTemplateError(profile.atomicNotesTemplate);
+
+            const fileNameSetting = new Setting(containerEl).setName('Filename template').setDesc('Uses the same variables as the note template, plus {{title}} for the note title, which is numbered when another note in the folder already has it');
+            const fileNameErrorEl = fileNameSetting.descEl.createDiv({ cls: 'pebble-sync-template-error' });
+            const showFileNameError = (value: string) => fileNameErrorEl.setText(validateTemplate(value) ?? '');
+            fileNameSetting.addText(t => t.setPlaceholder(DEFAULT_SETTINGS.fileNameTemplate).setValue(this.plugin.settings.fileNameTemplate).onChange(async v => { showFileNameError(v); this.plugin.settings.fileNameTemplate = v; await this.plugin.saveSettings(); }));
+            showFileNameError(this.plugin.settings.fileNameTemplate);
+
+            new Setting(containerEl).setName('When filenames collide').setDesc('How to name a note whose filename is already taken by a different note').addDropdown(d => d
+                .addOption('number', 'Add a number')
+                .addOption('id', 'Add a short item ID')
+                .addOption('seconds', 'Add the seconds')
+                .setValue(this.plugin.settings.fileNameCollision)
+                .onChange(async v => { this.plugin.settings.fileNameCollision = v as CollisionStrategy; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('When both copies changed').setDesc('How to handle a note edited in the vault and on the server since the last import').addDropdown(d => d
+                .addOption('conflict-copy', 'Write a conflict copy')
+                .addOption('merge-sections', 'Append a marked merge section')
+                .setValue(this.plugin.settings.conflictStrategy)
+                .onChange(async v => { this.plugin.settings.conflictStrategy = v as ConflictStrategy; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Overwrite on force re-import').setDesc('Enable this to allow the force re-import command to overwrite existing notes with the same name. Notes edited in the vault since import are never overwritten').addToggle(t => t.setValue(this.plugin.settings.overwriteExisting).onChange(async v => { this.plugin.settings.overwriteExisting = v; await this.plugin.saveSettings(); }));
+        }
+
+        // --- Linking ---
+        new Setting(containerEl).setName('Linking').setHeading();
+        new Setting(containerEl).setName('Link mentions of existing notes').setDesc('Turn exact mentions of note names and aliases in imported content into links. Code, links, web addresses and tags are left alone').addToggle(t => t.setValue(this.plugin.settings.autoLinkEnabled).onChange(async v => { this.plugin.settings.autoLinkEnabled = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.autoLinkEnabled) {
+            new Setting(containerEl).setName('Minimum name length').setDesc('Shorter names and aliases are never linked').addText(t => t.setPlaceholder('4').setValue(String(this.plugin.settings.autoLinkMinLength)).onChange(async v => { const length = parseInt(v, 10); this.plugin.settings.autoLinkMinLength = length > 0 ? length : DEFAULT_SETTINGS.autoLinkMinLength; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Never link').setDesc('Names and aliases to leave as plain text, one per line or separated by commas. Not case-sensitive').addTextArea(t => t.setPlaceholder('Inbox, todo').setValue(this.plugin.settings.autoLinkExclusions).onChange(async v => { this.plugin.settings.autoLinkExclusions = v; await this.plugin.saveSettings(); }));
+        }
+        new Setting(containerEl).setName('Tag index notes').setDesc('Keep a note per tag that lists the imported notes with the tag by date, updated on each sync').addToggle(t => t.setValue(this.plugin.settings.tagIndexEnabled).onChange(async v => { this.plugin.settings.tagIndexEnabled = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.tagIndexEnabled) {
+            new Setting(containerEl).setName('Tag index folder').setDesc('Folder for the index notes. Notes in it are never pushed').addText(t => t.setPlaceholder('Pebble/tags').setValue(this.plugin.settings.tagIndexFolder).onChange(async v => { this.plugin.settings.tagIndexFolder = v.trim(); await this.plugin.saveSettings(); }));
+        }
+
+        // --- Server Deletions ---
+        new Setting(containerEl).setName('Server deletions').setHeading();
+        const addRemovalPolicySetting = (name: string, desc: string, key: 'deletedPolicy' | 'archivedPolicy') => {
+            new Setting(containerEl).setName(name).setDesc(desc).addDropdown(d => d
+                .addOption('flag', 'Mark as archived in the frontmatter')
+                .addOption('move', 'Move to the archive folder')
+                .addOption('trash', 'Move to the trash')
+                .addOption('keep', 'Keep')
+                .setValue(this.plugin.settings[key])
+                .onChange(async v => { this.plugin.settings[key] = v as RemovalPolicy; await this.plugin.saveSettings(); this.display(); }));
+        };
+        addRemovalPolicySetting('Deleted notes', 'What happens to imported notes deleted on the server. Notes edited in the vault since import are only changed after you confirm', 'deletedPolicy');
+        addRemovalPolicySetting('Archived notes', 'What happens to imported notes archived on the server. Notes edited in the vault since import are only changed after you confirm', 'archivedPolicy');
+        if (this.plugin.settings.deletedPolicy === 'move' || this.plugin.settings.archivedPolicy === 'move') {
+            new Setting(containerEl).setName('Archive folder').addText(t => t.setPlaceholder('Pebble/archive').setValue(this.plugin.settings.archiveFolder).onChange(async v => { this.plugin.settings.archiveFolder = v.trim(); await this.plugin.saveSettings(); }));
+        }
+        new Setting(containerEl).setName('Periodic note entries').setDesc('What happens to the entries linking to a removed note, and to its inline entries and task lines').addDropdown(d => d
+            .addOption('strike', 'Strike through')
+            .addOption('remove', 'Remove')
+            .addOption('keep', 'Keep')
+            .setValue(this.plugin.settings.removedEntryAction)
+            .onChange(async v => { this.plugin.settings.removedEntryAction = v as RemovedEntryAction; await this.plugin.saveSettings(); }));
+
+        // --- Import History ---
+        new Setting(containerEl).setName('Import history').setHeading();
+        void this.displayImportHistory(containerEl.createDiv(), profile);
+
+        // --- Attachments ---
+        new Setting(containerEl).setName('Attachments').setHeading();
+        new Setting(containerEl).setName('Download attachments').setDesc('Save images, audio and files served by the API into the vault and link to the local copies').addToggle(t => t.setValue(this.plugin.settings.downloadAttachments).onChange(async v => { this.plugin.settings.downloadAttachments = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.downloadAttachments) {
+            new Setting(containerEl).setName('Attachments folder').setDesc("Leave empty to use the attachment location from Obsidian's files and links settings").addText(t => t.setPlaceholder('Pebble/attachments').setValue(this.plugin.settings.attachmentsFolder).onChange(async v => { this.plugin.settings.attachmentsFolder = v.trim(); await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Maximum attachment size').setDesc('In megabytes. Larger files keep their remote link. Set to 0 for no limit').addText(t => t.setPlaceholder('10').setValue(String(this.plugin.settings.attachmentMaxSizeMB)).onChange(async v => { const size = parseFloat(v); this.plugin.settings.attachmentMaxSizeMB = Number.isFinite(size) && size >= 0 ? size : DEFAULT_SETTINGS.attachmentMaxSizeMB; await this.plugin.saveSettings(); }));
+        }
+
+        // --- Other Item Types ---
+        const addTypeTemplateSetting = (desc: string, key: 'taskTemplate' | 'bookmarkTemplate' | 'checklistTemplate', rows: number) => {
+            const typeTemplateSetting = new Setting(containerEl).setName('Template').setDesc(desc);
+            const typeTemplateErrorEl = typeTemplateSetting.descEl.createDiv({ cls: 'pebble-sync-template-error' });
+            const showTypeTemplateError = (value: string) => typeTemplateErrorEl.setText(validateTemplate(value) ?? '');
+            typeTemplateSetting.addTextArea(text => {
+                text.setValue(this.plugin.settings[key]).onChange(async v => { showTypeTemplateError(v); this.plugin.settings[key] = v; await this.plugin.saveSettings(); });
+                text.inputEl.rows = rows;
+                text.inputEl.addClass('pebble-sync-textarea');
+            });
+            showTypeTemplateError(this.plugin.settings[key]);
+        };
+
+        new Setting(containerEl).setName('Tasks').setHeading();
+        new Setting(containerEl).setName('Import tasks').setDesc('Turn task items into checkboxes the tasks plugin understands').addToggle(t => t.setValue(this.plugin.settings.tasksEnabled).onChange(async v => { this.plugin.settings.tasksEnabled = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.tasksEnabled) {
+            new Setting(containerEl).setName('Add tasks to').setDesc('Tasks without a usable capture time always go to the task file').addDropdown(d => d
+                .addOption('daily', 'The daily note of their capture date')
+                .addOption('file', 'A task file')
+                .setValue(this.plugin.settings.taskDestination)
+                .onChange(async v => { this.plugin.settings.taskDestination = v as TaskDestination; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Task file').setDesc('File that collects tasks').addText(t => t.setPlaceholder(DEFAULT_SETTINGS.taskFile).setValue(this.plugin.settings.taskFile).onChange(async v => { this.plugin.settings.taskFile = v.trim(); await this.plugin.saveSettings(); }));
+            addTypeTemplateSetting('One line per task. Adds {{checkbox}}, {{due}}, {{scheduled}}, {{priority}} (as the tasks plugin emoji), {{priorityName}}, {{done}} and {{doneDate}} to the usual variables', 'taskTemplate', 3);
+        }
+
+        new Setting(containerEl).setName('Bookmarks').setHeading();
+        new Setting(containerEl).setName('Import bookmarks').setDesc('Create a note for every bookmark item').addToggle(t => t.setValue(this.plugin.settings.bookmarksEnabled).onChange(async v => { this.plugin.settings.bookmarksEnabled = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.bookmarksEnabled) {
+            new Setting(containerEl).setName('Bookmarks folder').setDesc('Folder where bookmark notes are created').addText(t => t.setPlaceholder(DEFAULT_SETTINGS.bookmarkFolder).setValue(this.plugin.settings.bookmarkFolder).onChange(async v => { this.plugin.settings.bookmarkFolder = v.trim(); await this.plugin.saveSettings(); }));
+            addTypeTemplateSetting('Adds {{url}} and {{description}} to the usual variables. {{title}} is the bookmark title', 'bookmarkTemplate', 8);
+        }
+
+        new Setting(containerEl).setName('Checklists').setHeading();
+        new Setting(containerEl).setName('Import checklists').setDesc('Create a note for every checklist item, keeping which entries are checked').addToggle(t => t.setValue(this.plugin.settings.checklistsEnabled).onChange(async v => { this.plugin.settings.checklistsEnabled = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.checklistsEnabled) {
+            new Setting(containerEl).setName('Checklists folder').setDesc('Folder where checklist notes are created').addText(t => t.setPlaceholder(DEFAULT_SETTINGS.checklistFolder).setValue(this.plugin.settings.checklistFolder).onChange(async v => { this.plugin.settings.checklistFolder = v.trim(); await this.plugin.saveSettings(); }));
+            addTypeTemplateSetting('{{content}} holds the description followed by the checklist. Also adds {{checklist}}, {{description}}, {{completed}} and {{total}}', 'checklistTemplate', 6);
+        }
+
+        // --- Dates ---
+        new Setting(containerEl).setName('Dates and times').setHeading();
+        const deviceZone = getDeviceTimeZone();
+        const addTimeZoneSetting = (name: string, desc: string, key: 'sourceTimezone' | 'vaultTimezone') => {
+            const zoneSetting = new Setting(containerEl).setName(name).setDesc(desc);
+            const zoneErrorEl = zoneSetting.descEl.createDiv({ cls: 'pebble-sync-template-error' });
+            const showZoneError = (value: string) => zoneErrorEl.setText(value && !isValidTimeZone(value) ? `Unknown time zone "${value}", the device's time zone is used` : '');
+            zoneSetting.addText(t => t.setPlaceholder(deviceZone || 'Europe/Berlin').setValue(this.plugin.settings[key]).onChange(async v => { showZoneError(v.trim()); this.plugin.settings[key] = v.trim(); await this.plugin.saveSettings(); }));
+            showZoneError(this.plugin.settings[key]);
+        };
+        addTimeZoneSetting('Source time zone', 'Time zone of capture times sent without an offset, e.g. America/New_York. Leave empty to use the time zone of this device', 'sourceTimezone');
+        addTimeZoneSetting('Vault time zone', 'Time zone used for note dates, filenames and periodic notes. Leave empty to use the time zone of this device', 'vaultTimezone');
+        const dayStartSetting = new Setting(containerEl).setName('Day starts at').setDesc('Captures before this time count toward the previous day, e.g. 04:00 for late nights');
+        const dayStartErrorEl = dayStartSetting.descEl.createDiv({ cls: 'pebble-sync-template-error' });
+        const showDayStartError = (value: string) => dayStartErrorEl.setText(value && toMinutes(value) === null ? `Invalid time "${value}", use HH:mm` : '');
+        dayStartSetting.addText(t => t.setPlaceholder('00:00').setValue(this.plugin.settings.dayStartsAt).onChange(async v => { showDayStartError(v.trim()); this.plugin.settings.dayStartsAt = v.trim(); await this.plugin.saveSettings(); }));
+        showDayStartError(this.plugin.settings.dayStartsAt);
+        new Setting(containerEl).setName('Missing or invalid capture times').setDesc('Captures without a usable timestamp are never dated with the current time').addDropdown(d => d
+            .addOption('error', 'Report an error and skip the capture')
+            .addOption('review', 'Import into the review folder')
+            .setValue(this.plugin.settings.invalidTimestampAction)
+            .onChange(async v => { this.plugin.settings.invalidTimestampAction = v as InvalidTimestampAction; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.invalidTimestampAction === 'review') {
+            new Setting(containerEl).setName('Review folder').setDesc('Folder for captures without a usable timestamp. They are not added to periodic notes and their dates are left empty').addText(t => t.setPlaceholder('Pebble/review').setValue(this.plugin.settings.reviewFolder).onChange(async v => { this.plugin.settings.reviewFolder = v.trim(); await this.plugin.saveSettings(); }));
+        }
+
+        // --- Routing Rules ---
+        new Setting(containerEl).setName('Routing rules').setHeading();
+        new Setting(containerEl)
+            .setDesc('Rules are checked in order and the first match decides the folder, template, title and daily note behaviour. Notes that match no rule use the atomic note settings above')
+            .addButton(button => {
+                button.setButtonText('Add rule');
+                button.onClick(async () => {
+                    this.plugin.settings.routingRules.push(createRoutingRule());
+                    await this.plugin.saveSettings();
+                    this.display();
                 });
+            });
+        this.plugin.settings.routingRules.forEach((rule, index) => this.displayRoutingRule(containerEl, rule, index));
+
+        // --- Push to Pebble ---
+        new Setting(containerEl).setName('Push to server').setHeading();
+        new Setting(containerEl).setName('Push local changes').setDesc('Send edited imported notes and new vault notes back to the server').addToggle(t => t.setValue(this.plugin.settings.pushEnabled).onChange(async v => { this.plugin.settings.pushEnabled = v; await this.plugin.saveSettings(); this.display(); }));
+        if (this.plugin.settings.pushEnabled) {
+            new Setting(containerEl).setName('Push after every import').setDesc('Push local changes automatically once an import finishes').addToggle(t => t.setValue(this.plugin.settings.pushAfterImport).onChange(async v => { this.plugin.settings.pushAfterImport = v; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Push new notes in the atomic notes folder').setDesc('Send notes created in the atomic notes folder that were not imported').addToggle(t => t.setValue(this.plugin.settings.pushNewInFolder).onChange(async v => { this.plugin.settings.pushNewInFolder = v; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Push tag').setDesc('Notes anywhere in the vault with this tag are sent to the server. Leave empty to disable').addText(t => t.setPlaceholder('Pebble-push').setValue(this.plugin.settings.pushTag).onChange(async v => { this.plugin.settings.pushTag = v.trim(); await this.plugin.saveSettings(); }));
         }
 
-        // --- Daily Note Integration ---
-        new Setting(containerEl).setName('Daily note integration').setHeading();
-        new Setting(containerEl).setName('Embed link in daily note').setDesc('Embed created atomic notes in the corresponding daily note').addToggle(t => t.setValue(this.plugin.settings.linkBackToDailyNote).onChange(async v => { this.plugin.settings.linkBackToDailyNote = v; await this.plugin.saveSettings(); this.display(); }));
+        // --- Periodic Note Integration ---
+        new Setting(containerEl).setName('Periodic note integration').setHeading();
+        new Setting(containerEl).setName('Add to periodic notes').setDesc('Add created atomic notes to the matching daily, weekly, monthly or quarterly notes').addToggle(t => t.setValue(this.plugin.settings.linkBackToDailyNote).onChange(async v => { this.plugin.settings.linkBackToDailyNote = v; await this.plugin.saveSettings(); this.display(); }));
         if (this.plugin.settings.linkBackToDailyNote) {
-            new Setting(containerEl).setName('Section heading').setDesc("The heading to add new embeds under in your daily note").addText(t => t.setValue(this.plugin.settings.sectionHeading).onChange(async v => { this.plugin.settings.sectionHeading = v; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Entry style').setDesc('How each capture appears in the periodic note. Entries are kept in order of capture time').addDropdown(d => d
+                .addOption('embed', 'Embed the note')
+                .addOption('link', 'Link to the note')
+                .addOption('list', 'List item with the time')
+                .addOption('callout', 'Callout with the content')
+                .addOption('inline', 'Inline content, no atomic note')
+                .setValue(this.plugin.settings.dailyEntryStyle)
+                .onChange(async v => { this.plugin.settings.dailyEntryStyle = v as DailyEntryStyle; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Clean up entries').setDesc('Update periodic note entries when an imported note is renamed, and remove them when the note is deleted').addToggle(t => t.setValue(this.plugin.settings.cleanUpDailyEntries).onChange(async v => { this.plugin.settings.cleanUpDailyEntries = v; await this.plugin.saveSettings(); }));
+            new Setting(containerEl).setName('Use periodic notes plugin').setDesc('Read the folder, format and template of each period from the periodic notes community plugin when it manages that period').addToggle(t => t.setValue(this.plugin.settings.usePeriodicNotesPlugin).onChange(async v => { this.plugin.settings.usePeriodicNotesPlugin = v; await this.plugin.saveSettings(); this.display(); }));
             new Setting(containerEl).setName('Use daily notes core plugin').setDesc('Strongly recommended. This reads the folder and format settings from the daily notes core plugin').addToggle(t => t.setValue(this.plugin.settings.useDailyNotesCore).onChange(async v => { this.plugin.settings.useDailyNotesCore = v; await this.plugin.saveSettings(); this.display(); }));
-            if (!this.plugin.settings.useDailyNotesCore) {
-                new Setting(containerEl).setName('Fallback folder for daily notes').setDesc('Folder to use for daily notes').addText(t => t.setValue(this.plugin.settings.dailyFolder).onChange(async v => { this.plugin.settings.dailyFolder = v.trim(); await this.plugin.saveSettings(); }));
-                new Setting(containerEl).setName('Fallback daily note date format').setDesc('Date format for daily note filenames').addText(t => t.setValue(this.plugin.settings.dailyFileNameFormat).onChange(async v => { this.plugin.settings.dailyFileNameFormat = v.trim(); await this.plugin.saveSettings(); }));
+            for (const period of NOTE_PERIODS) {
+                const periodSettings = this.plugin.settings.periodicNotes[period];
+                const label = PERIOD_LABELS[period];
+                new Setting(containerEl).setName(`${label} notes`).setDesc(`Add imports to the ${label.toLowerCase()} note of their capture date`).addToggle(t => t.setValue(periodSettings.enabled).onChange(async v => { periodSettings.enabled = v; await this.plugin.saveSettings(); this.display(); }));
+                if (!periodSettings.enabled) continue;
+                new Setting(containerEl).setName(`${label} note heading`).setDesc(`The heading to add new entries under in your ${label.toLowerCase()} note`).addText(t => t.setValue(periodSettings.heading).onChange(async v => { periodSettings.heading = v; await this.plugin.saveSettings(); }));
+                const fromPlugin = (this.plugin.settings.usePeriodicNotesPlugin && readPeriodicNotesConfig(this.app, period)) || (period === 'day' && this.plugin.settings.useDailyNotesCore);
+                if (!fromPlugin) {
+                    new Setting(containerEl).setName(`Fallback folder for ${label.toLowerCase()} notes`).setDesc(`Folder to use for ${label.toLowerCase()} notes`).addText(t => t.setValue(periodSettings.folder).onChange(async v => { periodSettings.folder = v.trim(); await this.plugin.saveSettings(); }));
+                    new Setting(containerEl).setName(`Fallback ${label.toLowerCase()} note date format`).setDesc(`Date format for ${label.toLowerCase()} note filenames`).addText(t => t.setPlaceholder(DEFAULT_PERIOD_FORMATS[period]).setValue(periodSettings.format).onChange(async v => { periodSettings.format = v.trim(); await this.plugin.saveSettings(); }));
+                    new Setting(containerEl).setName(`Fallback ${label.toLowerCase()} note template`).setDesc(`Template file for new ${label.toLowerCase()} notes, e.g. templates/${label.toLowerCase()}. Supports {{date}}, {{time}}, {{title}} and {{date:format}}`).addText(t => t.setValue(periodSettings.template).onChange(async v => { periodSettings.template = v.trim(); await this.plugin.saveSettings(); }));
+                }
+            }
+        }
+    }
+
+    async displayImportHistory(containerEl: HTMLElement, profile: SyncProfile) {
+        let dedupe: DedupeIndex;
+        try {
+            dedupe = await this.plugin.getDedupeIndex(profile);
+        } catch (error) {
+            containerEl.createDiv({ cls: 'pebble-sync-template-error', text: `Could not read the import history. ${this.plugin.normalizeError(error)}` });
+            return;
+        }
+
+        let query = '';
+        let resultsEl: HTMLElement;
+        const renderResults = () => {
+            resultsEl.empty();
+            if (!query.trim()) return;
+            const results = dedupe.search(query, 20);
+            if (results.length === 0) {
+                resultsEl.createDiv({ text: 'No matching items' });
+                return;
+            }
+            for (const [key, entry] of results) {
+                new Setting(resultsEl)
+                    .setName(entry.title || entry.itemId || key.substring(0, 16))
+                    .setDesc(`Imported ${moment(entry.importedAt).format('YYYY-MM-DD HH:mm')}${entry.itemId ? ` · ID ${entry.itemId}` : ''}${entry.legacy ? ' · from an older version' : ''}`)
+                    .addButton(b => b.setButtonText('Forget').onClick(async () => { await this.plugin.forgetImportedKey(key, profile.id); renderResults(); }));
+            }
+        };
+
+        new Setting(containerEl).setName('Search').setDesc(`${dedupe.size} imported items are remembered so they are not imported twice. Search by title, item ID or date`).addSearch(s => s.setPlaceholder('Title or ID').onChange(v => { query = v; renderResults(); }));
+        resultsEl = containerEl.createDiv({ cls: 'pebble-sync-history-results' });
+
+        new Setting(containerEl).setName('Export and import').setDesc(`Copies the history to ${this.plugin.getHistoryExportPath(profile)} in the vault, or merges it back in, to move it between devices`)
+            .addButton(b => b.setButtonText('Export').onClick(async () => { await this.plugin.exportImportHistory(profile); }))
+            .addButton(b => b.setButtonText('Import').onClick(async () => { await this.plugin.importImportHistory(profile); this.display(); }));
+
+        let pruneDays = 365;
+        new Setting(containerEl).setName('Prune old entries').setDesc('Forgets items imported more than this many days ago. Pruned items are imported again if the server still sends them')
+            .addText(t => t.setPlaceholder('365').setValue(String(pruneDays)).onChange(v => { pruneDays = parseInt(v, 10); }))
+            .addButton(b => b.setButtonText('Prune').onClick(async () => {
+                if (!Number.isFinite(pruneDays) || pruneDays < 0) {
+                    new Notice('Enter a number of days');
+                    return;
+                }
+                const removed = dedupe.prune(moment().subtract(pruneDays, 'days').toDate());
+                await dedupe.save();
+                new Notice(`Pruned ${removed} items from the import history`);
+                this.display();
+            }));
+
+        new Setting(containerEl)
+            .setName('Forget imported history')
+            .setDesc('Clears the deduplication log so every note is eligible for import again')
+            .addButton(button => {
+                button.setButtonText('Clear');
+                button.onClick(async () => {
+                    dedupe.clear();
+                    await dedupe.save();
+                    new Notice('Import history cleared');
+                    this.display();
+                });
+            });
+    }
+
+    displayRoutingRule(containerEl: HTMLElement, rule: RoutingRule, index: number) {
+        const rules = this.plugin.settings.routingRules;
+        const ruleEl = containerEl.createEl('details', { cls: 'pebble-sync-rule' });
+        ruleEl.createEl('summary', { text: `${index + 1}. ${rule.name || 'Unnamed rule'}${rule.enabled ? '' : ' (disabled)'}` });
+        const errorEl = ruleEl.createDiv({ cls: 'pebble-sync-template-error' });
+        const save = async () => {
+            errorEl.setText(validateRoutingRule(rule) ?? '');
+            await this.plugin.saveSettings();
+        };
+        errorEl.setText(validateRoutingRule(rule) ?? '');
+
+        new Setting(ruleEl)
+            .setName('Name')
+            .addText(t => t.setValue(rule.name).onChange(async v => { rule.name = v; await save(); }))
+            .addToggle(t => t.setTooltip('Enabled').setValue(rule.enabled).onChange(async v => { rule.enabled = v; await save(); }))
+            .addExtraButton(b => b.setIcon('arrow-up').setTooltip('Move up').setDisabled(index === 0).onClick(async () => {
+                [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+                await this.plugin.saveSettings();
+                this.display();
+            }))
+            .addExtraButton(b => b.setIcon('arrow-down').setTooltip('Move down').setDisabled(index === rules.length - 1).onClick(async () => {
+                [rules[index + 1], rules[index]] = [rules[index], rules[index + 1]];
+                await this.plugin.saveSettings();
+                this.display();
+            }))
+            .addExtraButton(b => b.setIcon('trash').setTooltip('Delete rule').onClick(async () => {
+                rules.splice(index, 1);
+                await this.plugin.saveSettings();
+                this.display();
+            }));
+
+        new Setting(ruleEl).setName('Match tags').setDesc('Comma-separated, any of them matches. Leave empty to ignore tags').addText(t => t.setPlaceholder('Meeting').setValue(rule.tags).onChange(async v => { rule.tags = v; await save(); }));
+        new Setting(ruleEl).setName('Match text').setDesc('Regular expression tested against the note content (case-insensitive)').addText(t => t.setPlaceholder('^todo').setValue(rule.textPattern).onChange(async v => { rule.textPattern = v; await save(); }));
+        new Setting(ruleEl).setName('Captured between').setDesc('Start and end time of day, for example 22:00 and 06:00. The range may wrap past midnight')
+            .addText(t => t.setPlaceholder('00:00').setValue(rule.timeFrom).onChange(async v => { rule.timeFrom = v.trim(); await save(); }))
+            .addText(t => t.setPlaceholder('24:00').setValue(rule.timeTo).onChange(async v => { rule.timeTo = v.trim(); await save(); }));
+
+        new Setting(ruleEl).setName('Action').addDropdown(d => d
+            .addOption('atomic-note', 'Create an atomic note')
+            .addOption('daily-only', 'Add the content to the daily note only')
+            .setValue(rule.action)
+            .onChange(async v => { rule.action = v as RouteAction; await save(); this.display(); }));
+
+        if (rule.action === 'atomic-note') {
+            new Setting(ruleEl).setName('Folder').setDesc('Leave empty to use the default folder').addText(t => t.setPlaceholder('Work/meetings').setValue(rule.folder).onChange(async v => { rule.folder = v.trim(); await save(); }));
+            new Setting(ruleEl).setName('Title').addDropdown(d => d
+                .addOption('default', 'Default title')
+                .addOption('rule-tag', 'Matched tag')
+                .addOption('first-line', 'First line of the note')
+                .addOption('custom', 'Custom text')
+                .setValue(rule.titleStrategy)
+                .onChange(async v => { rule.titleStrategy = v as RouteTitleStrategy; await save(); this.display(); }));
+            if (rule.titleStrategy === 'custom') {
+                new Setting(ruleEl).setName('Custom title').addText(t => t.setValue(rule.customTitle).onChange(async v => { rule.customTitle = v; await save(); }));
             }
+            new Setting(ruleEl).setName('Extra frontmatter').setDesc('YAML merged into the frontmatter of each note').addTextArea(text => {
+                text.setPlaceholder('Type: meeting').setValue(rule.frontmatter).onChange(async v => { rule.frontmatter = v; await save(); });
+                text.inputEl.rows = 3;
+                text.inputEl.addClass('pebble-sync-textarea');
+            });
+            new Setting(ruleEl).setName('Daily note').addDropdown(d => d
+                .addOption('default', 'Use the default setting')
+                .addOption('link', 'Embed in the daily note')
+                .addOption('skip', 'Do not embed')
+                .setValue(rule.dailyLink)
+                .onChange(async v => { rule.dailyLink = v as RouteDailyLink; await save(); }));
         }
+
+        new Setting(ruleEl)
+            .setName('Template')
+            .setDesc(rule.action === 'daily-only'
+                ? 'Entry added to the daily note. Leave empty for the time followed by the content'
+                : 'Leave empty to use the default atomic note template')
+            .addTextArea(text => {
+                text.setValue(rule.template).onChange(async v => { rule.template = v; await save(); });
+                text.inputEl.rows = 6;
+                text.inputEl.addClass('pebble-sync-textarea');
+            });
     }
 }
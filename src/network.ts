@@ -0,0 +1,107 @@
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { SyncCancelledError, throwIfCancelled } from './sync-coordinator';
+
+/**
+ * `requestUrl` with retries. Network failures, timeouts and 5xx responses are retried with
+ * exponential backoff and jitter; 429 responses wait for the server's Retry-After first.
+ */
+
+export class HttpError extends Error {
+    constructor(public status: number, public text: string) {
+        super(text.trim() ? text.slice(0, 200) : `Request failed with status ${status}`);
+        this.name = 'HttpError';
+    }
+}
+
+export interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal | null;
+    onRetry?: (attempt: number, delayMs: number, reason: string) => void;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+// A longer Retry-After than this is treated as a failure rather than stalling the sync.
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+const getHeader = (headers: Record<string, string>, name: string): string | undefined => {
+    const key = Object.keys(headers ?? {}).find(header => header.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+};
+
+/** Reads Retry-After as either delay seconds or an HTTP date. */
+export const parseRetryAfter = (value: string | undefined, now = Date.now()): number | null => {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1000;
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/** Equal jitter: half of the capped exponential step, plus a random share of the other half. */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+    const step = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+    return Math.round(step / 2 + Math.random() * step / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new SyncCancelledError());
+        return;
+    }
+    const onAbort = () => {
+        window.clearTimeout(timer);
+        reject(new SyncCancelledError());
+    };
+    const timer = window.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const requestWithRetry = async (request: RequestUrlParam, options: RetryOptions = {}): Promise<RequestUrlResponse> => {
+    const retries = options.retries ?? DEFAULT_RETRIES;
+    const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+    for (let attempt = 0; ; attempt++) {
+        throwIfCancelled(options.signal);
+
+        let response: RequestUrlResponse;
+        try {
+            response = await requestUrl({ ...request, throw: false });
+        } catch (error) {
+            // requestUrl only rejects when no response arrived at all, e.g. offline or DNS failures.
+            if (attempt >= retries) throw error;
+            const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+            options.onRetry?.(attempt + 1, delay, error instanceof Error ? error.message : 'network error');
+            await sleep(delay, options.signal);
+            continue;
+        }
+
+        if (response.status < 400) return response;
+
+        if (!RETRYABLE_STATUS.has(response.status) || attempt >= retries) {
+            throw new HttpError(response.status, response.text ?? '');
+        }
+
+        let delay = backoffDelay(attempt, baseDelayMs, maxDelayMs);
+        if (response.status === 429) {
+            const retryAfter = parseRetryAfter(getHeader(response.headers, 'retry-after'));
+            if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+                throw new HttpError(429, `Rate limited by the server, retry in ${Math.ceil(retryAfter / 60000)} minutes`);
+            }
+            if (retryAfter !== null) delay = retryAfter;
+        }
+
+        options.onRetry?.(attempt + 1, delay, `status ${response.status}`);
+        await sleep(delay, options.signal);
+    }
+};
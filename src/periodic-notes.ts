@@ -0,0 +1,141 @@
+import { App, moment, TFile } from 'obsidian';
+
+/**
+ * Daily, weekly, monthly and quarterly notes that imports can be added to. Folder, format and
+ * template come from the Periodic Notes community plugin when it manages the period, otherwise
+ * from the plugin's own settings.
+ */
+
+export type NotePeriod = 'day' | 'week' | 'month' | 'quarter';
+
+export const NOTE_PERIODS: NotePeriod[] = ['day', 'week', 'month', 'quarter'];
+
+export const PERIOD_LABELS: Record<NotePeriod, string> = {
+    day: 'Daily',
+    week: 'Weekly',
+    month: 'Monthly',
+    quarter: 'Quarterly',
+};
+
+export interface PeriodicNoteSettings {
+    enabled: boolean;
+    heading: string;
+    folder: string; // Used when no plugin provides the folder
+    format: string; // Used when no plugin provides the format
+    template: string; // Used when no plugin provides the template
+}
+
+export interface PeriodicNoteConfig {
+    folder: string;
+    format: string;
+    template: string; // Vault path of the template, without the extension
+}
+
+export const DEFAULT_PERIOD_FORMATS: Record<NotePeriod, string> = {
+    day: 'YYYY-MM-DD',
+    week: 'gggg-[W]ww',
+    month: 'YYYY-MM',
+    quarter: 'YYYY-[Q]Q',
+};
+
+export const createPeriodicNoteSettings = (): Record<NotePeriod, PeriodicNoteSettings> => ({
+    day: { enabled: true, heading: '## Pebble Imports', folder: '', format: DEFAULT_PERIOD_FORMATS.day, template: '' },
+    week: { enabled: false, heading: '## Pebble Imports', folder: '', format: DEFAULT_PERIOD_FORMATS.week, template: '' },
+    month: { enabled: false, heading: '## Pebble Imports', folder: '', format: DEFAULT_PERIOD_FORMATS.month, template: '' },
+    quarter: { enabled: false, heading: '## Pebble Imports', folder: '', format: DEFAULT_PERIOD_FORMATS.quarter, template: '' },
+});
+
+interface PeriodicNotesPeriod {
+    enabled?: boolean;
+    folder?: string;
+    format?: string;
+    template?: string; // Before 1.0
+    templatePath?: string; // 1.0 and later
+}
+
+// Before 1.0 the settings are keyed by adjective; 1.0 moved them into calendar sets keyed by period.
+interface PeriodicNotesSettings {
+    daily?: PeriodicNotesPeriod;
+    weekly?: PeriodicNotesPeriod;
+    monthly?: PeriodicNotesPeriod;
+    quarterly?: PeriodicNotesPeriod;
+    activeCalendarSet?: string;
+    calendarSets?: ({ id?: string } & Partial<Record<NotePeriod, PeriodicNotesPeriod>>)[];
+}
+
+interface Templater {
+    overwrite_file_commands(file: TFile): Promise<void>;
+}
+
+interface CommunityPlugins {
+    enabledPlugins?: Set<string>;
+    getPlugin(id: string): { settings?: PeriodicNotesSettings; templater?: Templater } | null;
+}
+
+const LEGACY_PERIOD_KEYS: Record<NotePeriod, 'daily' | 'weekly' | 'monthly' | 'quarterly'> = {
+    day: 'daily',
+    week: 'weekly',
+    month: 'monthly',
+    quarter: 'quarterly',
+};
+
+/** The Periodic Notes plugin's configuration for the period, or null when the plugin is off or doesn't manage it. */
+export const readPeriodicNotesConfig = (app: App, period: NotePeriod): PeriodicNoteConfig | null => {
+    const plugins = (app as unknown as { plugins?: CommunityPlugins }).plugins;
+    if (!plugins?.enabledPlugins?.has('periodic-notes')) return null;
+    const settings = plugins.getPlugin('periodic-notes')?.settings;
+    if (!settings) return null;
+
+    let config: PeriodicNotesPeriod | undefined;
+    if (Array.isArray(settings.calendarSets)) {
+        const calendarSet = settings.calendarSets.find(set => set.id === settings.activeCalendarSet) ?? settings.calendarSets[0];
+        config = calendarSet?.[period];
+    } else {
+        config = settings[LEGACY_PERIOD_KEYS[period]];
+    }
+    if (!config?.enabled) return null;
+
+    return {
+        folder: config.folder?.trim() || '',
+        format: config.format?.trim() || DEFAULT_PERIOD_FORMATS[period],
+        template: (config.templatePath ?? config.template ?? '').trim().replace(/\.md$/, ''),
+    };
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// {{date}}, {{time}}, {{title}}, {{yesterday}}, {{tomorrow}} and weekday names, with an optional
+// offset such as {{date+1d}} and format such as {{date:YYYY-MM-DD}}, as the core and Periodic Notes plugins support.
+const TEMPLATE_VARIABLE_REGEX = new RegExp(`{{\\s*(date|time|title|yesterday|tomorrow|${WEEKDAYS.join('|')})\\s*(?:([+-]\\d+)([yqmwdhs]))?\\s*(?::(.*?))?}}`, 'gi');
+
+const OFFSET_UNITS: Record<string, moment.unitOfTime.DurationConstructor> = { y: 'y', q: 'Q', m: 'M', w: 'w', d: 'd', h: 'h', s: 's' };
+
+/**
+ * Fills in the template variables of a periodic note created for the given date. {{date}} uses the
+ * note's filename format, and the dates come from the note's date rather than the current time.
+ * {{time}} is the capture time of the item the note was created for.
+ */
+export const renderPeriodicTemplate = (template: string, date: moment.Moment, format: string, title: string, time: moment.Moment = date): string =>
+    template.replace(TEMPLATE_VARIABLE_REGEX, (_match: string, name: string, amount?: string, unit?: string, customFormat?: string) => {
+        const variable = name.toLowerCase();
+        if (variable === 'title') return title;
+
+        let value = (variable === 'time' ? time : date).clone();
+        if (variable === 'yesterday') value.subtract(1, 'd');
+        else if (variable === 'tomorrow') value.add(1, 'd');
+        else if (WEEKDAYS.includes(variable)) value = value.weekday((WEEKDAYS.indexOf(variable) - moment.localeData().firstDayOfWeek() + 7) % 7);
+        if (amount && unit) value.add(parseInt(amount, 10), OFFSET_UNITS[unit.toLowerCase()]);
+
+        const defaultFormat = variable === 'time' ? 'HH:mm' : variable === 'date' || variable === 'yesterday' || variable === 'tomorrow' ? format : 'YYYY-MM-DD';
+        return value.format(customFormat?.trim() || defaultFormat);
+    });
+
+/** Runs the file through Templater when it is installed. Returns false when Templater isn't available. */
+export const runTemplater = async (app: App, file: TFile): Promise<boolean> => {
+    const plugins = (app as unknown as { plugins?: CommunityPlugins }).plugins;
+    if (!plugins?.enabledPlugins?.has('templater-obsidian')) return false;
+    const templater = plugins.getPlugin('templater-obsidian')?.templater;
+    if (typeof templater?.overwrite_file_commands !== 'function') return false;
+    await templater.overwrite_file_commands(file);
+    return true;
+};
@@ -0,0 +1,110 @@
+import { App, Modal, Setting } from 'obsidian';
+import { diffLines } from './diff';
+
+export interface PreviewItem {
+    action: string;
+    title: string;
+    path: string;
+    dailyPaths: string[];
+    /** Skipped items are listed for context but cannot be selected. */
+    selectable: boolean;
+    before?: string;
+    after?: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+    'created': 'Create',
+    'updated': 'Update',
+    'conflict': 'Conflict',
+    'daily-entry': 'Daily note entry',
+    'task': 'Task',
+    'skipped-duplicate': 'Skip (duplicate)',
+    'skipped-existing': 'Skip (exists)',
+    'kept-local': 'Skip (edited in vault)',
+};
+
+/**
+ * Lists what an import would do, item by item, and applies only the items left selected.
+ */
+export class ImportPreviewModal extends Modal {
+    private selected: Set<number>;
+
+    constructor(app: App, private items: PreviewItem[], private onApply: (selected: number[]) => void) {
+        super(app);
+        this.selected = new Set(items.map((item, index) => item.selectable ? index : -1).filter(index => index >= 0));
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText('Preview import');
+        contentEl.addClass('pebble-sync-preview');
+
+        const counts = new Map<string, number>();
+        for (const item of this.items) {
+            counts.set(item.action, (counts.get(item.action) ?? 0) + 1);
+        }
+        contentEl.createEl('p', {
+            text: [...counts.entries()].map(([action, count]) => `${ACTION_LABELS[action] ?? action}: ${count}`).join(' · ')
+        });
+
+        const checkboxes: HTMLInputElement[] = [];
+        const listEl = contentEl.createDiv({ cls: 'pebble-sync-preview-list' });
+        this.items.forEach((item, index) => {
+            const rowEl = listEl.createDiv({ cls: 'pebble-sync-preview-item' });
+            const headerEl = rowEl.createEl('label', { cls: 'pebble-sync-preview-header' });
+            const checkbox = headerEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selected.has(index);
+            checkbox.disabled = !item.selectable;
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) this.selected.add(index);
+                else this.selected.delete(index);
+            });
+            if (item.selectable) checkboxes[index] = checkbox;
+
+            headerEl.createSpan({ cls: `pebble-sync-preview-action pebble-sync-action-${item.action}`, text: ACTION_LABELS[item.action] ?? item.action });
+            headerEl.createSpan({ text: item.title });
+
+            const metaEl = rowEl.createDiv({ cls: 'pebble-sync-preview-meta' });
+            metaEl.createDiv({ text: item.path });
+            if (item.dailyPaths.length > 0) {
+                metaEl.createDiv({ text: `Linked from ${item.dailyPaths.join(', ')}` });
+            }
+
+            if (item.before !== undefined && item.after !== undefined) {
+                const detailsEl = rowEl.createEl('details');
+                detailsEl.createEl('summary', { text: 'Changes' });
+                const diffEl = detailsEl.createEl('pre', { cls: 'pebble-sync-diff' });
+                for (const line of diffLines(item.before, item.after)) {
+                    const prefix = line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  ';
+                    diffEl.createDiv({ cls: `pebble-sync-diff-${line.type}`, text: prefix + line.text });
+                }
+            }
+        });
+
+        const setAll = (checked: boolean) => {
+            checkboxes.forEach((checkbox, index) => {
+                if (!checkbox) return;
+                checkbox.checked = checked;
+                if (checked) this.selected.add(index);
+                else this.selected.delete(index);
+            });
+        };
+
+        new Setting(contentEl)
+            .addButton(button => button.setButtonText('Select all').onClick(() => setAll(true)))
+            .addButton(button => button.setButtonText('Select none').onClick(() => setAll(false)))
+            .addButton(button => button.setButtonText('Cancel').onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Apply selected')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onApply([...this.selected].sort((a, b) => a - b));
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
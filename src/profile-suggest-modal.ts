@@ -0,0 +1,22 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import type { SyncProfile } from './profiles';
+
+/** Asks which profile a one-off action such as the import preview should run for. */
+export class ProfileSuggestModal extends FuzzySuggestModal<SyncProfile> {
+    constructor(app: App, private profiles: SyncProfile[], private onChoose: (profile: SyncProfile) => void) {
+        super(app);
+        this.setPlaceholder('Choose a profile');
+    }
+
+    getItems(): SyncProfile[] {
+        return this.profiles;
+    }
+
+    getItemText(profile: SyncProfile): string {
+        return profile.name;
+    }
+
+    onChooseItem(profile: SyncProfile) {
+        this.onChoose(profile);
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Named sync profiles. Each profile pulls from its own Pebble deployment into its own folder,
+ * with its own dedupe history and schedule; everything else is shared between profiles.
+ */
+
+export interface SyncProfile {
+    id: string;
+    name: string;
+    apiUrl: string;
+    apiKey: string;
+    atomicNotesFolder: string;
+    atomicNotesTemplate: string;
+    autoRunOnStartup: boolean;
+    autoRunInterval: number; // In minutes, 0 disables
+    syncCursors: Record<string, string>; // Last fully imported cursor, keyed by normalized API URL
+}
+
+// Also the profile of notes imported before profiles existed, which carry no profile frontmatter.
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const createProfile = (fields: Partial<SyncProfile> = {}): SyncProfile => ({
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: 'New profile',
+    apiUrl: '',
+    apiKey: '',
+    atomicNotesFolder: '',
+    atomicNotesTemplate: '',
+    autoRunOnStartup: false,
+    autoRunInterval: 0,
+    syncCursors: {},
+    ...fields,
+});
+
+/** Whether a note stamped with the given profile ID (or none) belongs to the profile. */
+export const belongsToProfile = (stampedId: unknown, profileId: string): boolean =>
+    typeof stampedId === 'string' && stampedId ? stampedId === profileId : profileId === DEFAULT_PROFILE_ID;
@@ -0,0 +1,51 @@
+import { App, Modal, Setting } from 'obsidian';
+import type { PendingRemoval } from './removals';
+
+/**
+ * Asks before applying a removal to notes that were edited in the vault since they were
+ * imported. Only the notes left selected are passed on.
+ */
+export class ConfirmRemovalModal extends Modal {
+    private selected = new Set<number>();
+
+    constructor(app: App, private removals: PendingRemoval[], private describePolicy: (removal: PendingRemoval) => string, private onApply: (selected: PendingRemoval[]) => void) {
+        super(app);
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText('Notes removed on the server');
+        contentEl.createEl('p', { text: 'These notes were deleted or archived on the server, but have been edited in the vault since they were imported. Select the ones to apply the removal to; the others are left as they are.' });
+
+        const listEl = contentEl.createDiv({ cls: 'pebble-sync-preview-list' });
+        this.removals.forEach((removal, index) => {
+            const rowEl = listEl.createDiv({ cls: 'pebble-sync-preview-item' });
+            const headerEl = rowEl.createEl('label', { cls: 'pebble-sync-preview-header' });
+            const checkbox = headerEl.createEl('input', { type: 'checkbox' });
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) this.selected.add(index);
+                else this.selected.delete(index);
+            });
+            headerEl.createSpan({ cls: `pebble-sync-preview-action pebble-sync-action-${removal.kind}`, text: removal.kind === 'deleted' ? 'Deleted' : 'Archived' });
+            headerEl.createSpan({ text: removal.file.basename });
+            const metaEl = rowEl.createDiv({ cls: 'pebble-sync-preview-meta' });
+            metaEl.createDiv({ text: removal.file.path });
+            metaEl.createDiv({ text: this.describePolicy(removal) });
+        });
+
+        new Setting(contentEl)
+            .addButton(button => button.setButtonText('Keep all').onClick(() => this.close()))
+            .addButton(button => button
+                .setButtonText('Apply selected')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onApply(this.removals.filter((removal, index) => this.selected.has(index)));
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,67 @@
+import type { TFile } from 'obsidian';
+
+/**
+ * Server-side deletions and archives. The sync feed reports them either as items flagged with
+ * `deleted` or `archived` (or a matching `status`), or as separate `deleted` / `archived` ID lists.
+ */
+
+export type RemovalKind = 'deleted' | 'archived';
+
+export type RemovalPolicy = 'keep' | 'trash' | 'move' | 'flag';
+
+export type RemovedEntryAction = 'keep' | 'strike' | 'remove';
+
+export interface Removal {
+    id: string;
+    kind: RemovalKind;
+}
+
+export interface PendingRemoval extends Removal {
+    file: TFile;
+}
+
+interface RemovalFeed {
+    items?: unknown;
+    deleted?: unknown;
+    archived?: unknown;
+}
+
+const ID_FIELDS = ['id', 'uuid', 'key'];
+
+const getId = (value: unknown): string => {
+    if (typeof value === 'string' || typeof value === 'number') return String(value);
+    if (!value || typeof value !== 'object') return '';
+    const fields = value as Record<string, unknown>;
+    for (const name of ID_FIELDS) {
+        const id = fields[name];
+        if ((typeof id === 'string' && id) || typeof id === 'number') return String(id);
+    }
+    return '';
+};
+
+/** How the item was removed on the server, or null when it is live. */
+export const getRemovalKind = (item: Record<string, unknown>): RemovalKind | null => {
+    if (item.deleted === true || item.status === 'deleted') return 'deleted';
+    if (item.archived === true || item.status === 'archived') return 'archived';
+    return null;
+};
+
+/** Every deletion and archive in a page of the feed. A deletion wins when an item is listed as both. */
+export const getRemovals = (payload: RemovalFeed): Removal[] => {
+    const removals = new Map<string, RemovalKind>();
+    const add = (value: unknown, kind: RemovalKind) => {
+        const id = getId(value);
+        if (id && removals.get(id) !== 'deleted') removals.set(id, kind);
+    };
+    for (const item of Array.isArray(payload.items) ? payload.items as unknown[] : []) {
+        if (!item || typeof item !== 'object') continue;
+        const kind = getRemovalKind(item as Record<string, unknown>);
+        if (kind) add(item, kind);
+    }
+    for (const id of Array.isArray(payload.archived) ? payload.archived as unknown[] : []) add(id, 'archived');
+    for (const id of Array.isArray(payload.deleted) ? payload.deleted as unknown[] : []) add(id, 'deleted');
+
+    const result: Removal[] = [];
+    removals.forEach((kind, id) => result.push({ id, kind }));
+    return result;
+};
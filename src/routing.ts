@@ -0,0 +1,122 @@
+import { moment } from 'obsidian';
+import { validateTemplate } from './template';
+
+/**
+ * Ordered routing rules. The first enabled rule whose conditions all match decides where a
+ * capture goes; captures that match no rule use the plugin's default atomic note settings.
+ */
+
+export type RouteAction = 'atomic-note' | 'daily-only';
+
+export type RouteTitleStrategy = 'default' | 'rule-tag' | 'first-line' | 'custom';
+
+export type RouteDailyLink = 'default' | 'link' | 'skip';
+
+export interface RoutingRule {
+    name: string;
+    enabled: boolean;
+    // --- Conditions (empty conditions are ignored) ---
+    tags: string; // Comma-separated, any of them matches
+    textPattern: string; // Case-insensitive regular expression tested against the markdown
+    timeFrom: string; // HH:mm, inclusive
+    timeTo: string; // HH:mm, exclusive; may wrap past midnight
+    // --- Effects ---
+    action: RouteAction;
+    folder: string;
+    template: string;
+    titleStrategy: RouteTitleStrategy;
+    customTitle: string;
+    frontmatter: string; // Extra YAML merged into the note's frontmatter
+    dailyLink: RouteDailyLink;
+}
+
+export interface RouteMatch {
+    rule: RoutingRule;
+    matchedTag?: string;
+}
+
+const TIME_REGEX = /^([01]?\d|2[0-4]):([0-5]\d)$/;
+
+export const createRoutingRule = (): RoutingRule => ({
+    name: 'New rule',
+    enabled: true,
+    tags: '',
+    textPattern: '',
+    timeFrom: '',
+    timeTo: '',
+    action: 'atomic-note',
+    folder: '',
+    template: '',
+    titleStrategy: 'default',
+    customTitle: '',
+    frontmatter: '',
+    dailyLink: 'default',
+});
+
+export const parseTagList = (value: string): string[] => (value || '')
+    .split(',')
+    .map(tag => tag.replace(/^#/, '').trim().toLowerCase())
+    .filter(Boolean);
+
+export const toMinutes = (value: string): number | null => {
+    const match = TIME_REGEX.exec(value.trim());
+    return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+};
+
+const matchesTime = (rule: RoutingRule, noteMoment: moment.Moment): boolean => {
+    if (!rule.timeFrom.trim() && !rule.timeTo.trim()) return true;
+    const from = toMinutes(rule.timeFrom) ?? 0;
+    const to = toMinutes(rule.timeTo) ?? 24 * 60;
+    const minutes = noteMoment.hours() * 60 + noteMoment.minutes();
+    return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+};
+
+const matchRule = (rule: RoutingRule, markdown: string, tags: Set<string>, noteMoment: moment.Moment): RouteMatch | null => {
+    let matchedTag: string | undefined;
+    const ruleTags = parseTagList(rule.tags);
+    if (ruleTags.length > 0) {
+        matchedTag = ruleTags.find(tag => tags.has(tag));
+        if (!matchedTag) return null;
+    }
+
+    if (rule.textPattern.trim()) {
+        try {
+            if (!new RegExp(rule.textPattern, 'i').test(markdown)) return null;
+        } catch {
+            return null;
+        }
+    }
+
+    return matchesTime(rule, noteMoment) ? { rule, matchedTag } : null;
+};
+
+export const findMatchingRule = (rules: RoutingRule[], markdown: string, noteTags: string[], noteMoment: moment.Moment): RouteMatch | null => {
+    const tags = new Set(noteTags.map(tag => tag.replace(/^#/, '').trim().toLowerCase()));
+    for (const rule of rules) {
+        if (!rule.enabled) continue;
+        const match = matchRule(rule, markdown, tags, noteMoment);
+        if (match) return match;
+    }
+    return null;
+};
+
+/** Returns a readable description of the first problem with a rule, or null when it is valid. */
+export const validateRoutingRule = (rule: RoutingRule): string | null => {
+    if (rule.textPattern.trim()) {
+        try {
+            new RegExp(rule.textPattern, 'i');
+        } catch (error) {
+            return `Invalid text pattern: ${error instanceof Error ? error.message : String(error)}`;
+        }
+    }
+    for (const value of [rule.timeFrom, rule.timeTo]) {
+        if (value.trim() && toMinutes(value) === null) {
+            return `Invalid time "${value}", use HH:mm`;
+        }
+    }
+    if (rule.template.trim()) {
+        const templateError = validateTemplate(rule.template);
+        if (templateError) return `Template: ${templateError}`;
+    }
+    return null;
+};
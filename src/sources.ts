@@ -0,0 +1,222 @@
+import { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { resolveApiUrl } from './attachments';
+import { isZip, readZip, ZipEntry } from './zip';
+import { SyncCancelledError } from './sync-coordinator';
+
+/**
+ * Where an import reads its items from. The HTTP source pages through the sync API; the export
+ * file source reads a Pebble JSON export or a ZIP of one with its attachments. Everything after
+ * fetching, from dedupe to daily note linking, is shared.
+ */
+
+export interface SyncPage {
+    items?: unknown;
+    nextCursor?: string | null;
+    hasMore?: boolean;
+    deleted?: unknown;
+    archived?: unknown;
+}
+
+export interface FetchedAttachment {
+    data: ArrayBuffer;
+    contentType?: string;
+}
+
+export interface SyncSource {
+    /** Identifies the source, e.g. for its stored cursor. */
+    readonly key: string;
+    /** Attachments come with the source, so they are copied even when downloads are turned off. */
+    readonly bundlesAttachments: boolean;
+    fetchPage(cursor: string, limit: number): Promise<SyncPage>;
+    /** Missing when the source can't be told what was imported. */
+    acknowledge?(ids: string[], action: string): Promise<void>;
+    /**
+     * The address to fetch an attachment from, or null when the source doesn't serve it. Inline
+     * links are the ones in the markdown; the others come from the item's `attachments`.
+     */
+    resolveAttachment(url: string, inline: boolean): string | null;
+    /** The attachment's size in bytes without downloading it, or null when it isn't known up front. */
+    getAttachmentSize(url: string): Promise<number | null>;
+    fetchAttachment(url: string): Promise<FetchedAttachment>;
+}
+
+type Request = (request: RequestUrlParam, retries?: number) => Promise<RequestUrlResponse>;
+
+export class HttpSource implements SyncSource {
+    readonly bundlesAttachments = false;
+
+    constructor(private apiUrl: string, private apiKey: string, private request: Request) { }
+
+    get key(): string {
+        return this.apiUrl;
+    }
+
+    async fetchPage(cursor: string, limit: number): Promise<SyncPage> {
+        const params: string[] = [];
+        if (cursor) params.push(`cursor=${encodeURIComponent(cursor)}`);
+        if (limit > 0) params.push(`limit=${limit}`);
+        const query = params.length > 0 ? `?${params.join('&')}` : '';
+
+        const response = await this.request({
+            url: `${this.apiUrl}/api/sync/fetch${query}`,
+            method: 'GET',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-API-Key': this.apiKey
+            }
+        });
+
+        return (response.json as SyncPage) ?? JSON.parse(response.text) as SyncPage;
+    }
+
+    async acknowledge(ids: string[], action: string) {
+        await this.request({
+            url: `${this.apiUrl}/api/sync/ack`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-API-Key': this.apiKey
+            },
+            body: JSON.stringify({ ids, action })
+        });
+    }
+
+    resolveAttachment(url: string, inline: boolean): string | null {
+        // Relative links in the markdown may point anywhere, so only absolute and root-relative ones are followed.
+        if (inline && !/^(https?:)?\/\//i.test(url) && !url.startsWith('/')) return null;
+        return resolveApiUrl(this.apiUrl, url);
+    }
+
+    async getAttachmentSize(url: string): Promise<number | null> {
+        try {
+            // A single attempt: the download that follows retries anyway, and a probe must not hold it up.
+            const response = await this.request({ url, method: 'HEAD', headers: { 'X-API-Key': this.apiKey } }, 0);
+            const length = parseInt(response.headers['content-length'] ?? response.headers['Content-Length'] ?? '', 10);
+            return Number.isFinite(length) ? length : null;
+        } catch (error) {
+            if (error instanceof SyncCancelledError) throw error;
+            // Servers that don't answer HEAD are checked once the file is downloaded.
+            return null;
+        }
+    }
+
+    async fetchAttachment(url: string): Promise<FetchedAttachment> {
+        const response = await this.request({
+            url,
+            method: 'GET',
+            headers: { 'X-API-Key': this.apiKey }
+        });
+        return { data: response.arrayBuffer, contentType: response.headers['content-type'] ?? response.headers['Content-Type'] };
+    }
+}
+
+// Preferred names for the items file inside an archive, before any other JSON file.
+const EXPORT_FILE_NAMES = ['export.json', 'pebble.json', 'items.json', 'notes.json'];
+
+/** Reads the items of an export: a plain array, or an object with `items` or `notes`. */
+const parseExport = (value: unknown): SyncPage | null => {
+    let page: SyncPage;
+    if (Array.isArray(value)) page = { items: value };
+    else if (value && typeof value === 'object') {
+        const fields = value as Record<string, unknown>;
+        const items = Array.isArray(fields.items) ? fields.items : fields.notes;
+        if (!Array.isArray(items)) return null;
+        page = { items, deleted: fields.deleted, archived: fields.archived };
+    } else return null;
+
+    // Exports may leave out the type of plain notes.
+    page.items = (page.items as unknown[]).map(item => item && typeof item === 'object' && typeof (item as Record<string, unknown>).type !== 'string'
+        ? { ...item, type: 'note' }
+        : item);
+    return page;
+};
+
+const getDepth = (path: string): number => path.split('/').length;
+
+export class ExportFileSource implements SyncSource {
+    readonly bundlesAttachments = true;
+    private entries = new Map<string, ZipEntry>();
+    private baseFolder = ''; // Folder of the items file inside the archive, ending in a slash
+
+    private constructor(private name: string, private page: SyncPage) { }
+
+    get key(): string {
+        return `file:${this.name}`;
+    }
+
+    /** Reads a JSON export, or finds the items file of a ZIP export. Throws when neither is found. */
+    static async load(name: string, data: ArrayBuffer): Promise<ExportFileSource> {
+        if (!isZip(data)) {
+            const page = parseExport(JSON.parse(new TextDecoder('utf-8').decode(data)));
+            if (!page) throw new Error(`${name} doesn't contain any items`);
+            return new ExportFileSource(name, page);
+        }
+
+        const entries = readZip(data).filter(entry => !entry.name.startsWith('__MACOSX/'));
+        const candidates = entries
+            .filter(entry => entry.name.toLowerCase().endsWith('.json'))
+            .sort((a, b) => {
+                const rank = (entry: ZipEntry) => {
+                    const index = EXPORT_FILE_NAMES.indexOf(entry.name.split('/').pop()?.toLowerCase() ?? '');
+                    return index === -1 ? EXPORT_FILE_NAMES.length : index;
+                };
+                return getDepth(a.name) - getDepth(b.name) || rank(a) - rank(b) || a.name.localeCompare(b.name);
+            });
+        for (const candidate of candidates) {
+            let page: SyncPage | null;
+            try {
+                page = parseExport(JSON.parse(new TextDecoder('utf-8').decode(await candidate.read())));
+            } catch {
+                continue;
+            }
+            if (!page) continue;
+            const source = new ExportFileSource(name, page);
+            entries.forEach(entry => source.entries.set(entry.name, entry));
+            source.baseFolder = candidate.name.includes('/') ? candidate.name.substring(0, candidate.name.lastIndexOf('/') + 1) : '';
+            return source;
+        }
+        throw new Error(`${name} doesn't contain a Pebble export`);
+    }
+
+    fetchPage(): Promise<SyncPage> {
+        // An export is read in one go, so there is never a next page.
+        return Promise.resolve({ ...this.page, nextCursor: null, hasMore: false });
+    }
+
+    resolveAttachment(url: string): string | null {
+        if (this.entries.size === 0) return null;
+        let path = url.split(/[?#]/)[0];
+        if (/^([a-z][a-z0-9+.-]*:)?\/\//i.test(path)) {
+            try {
+                path = new URL(path, 'https://localhost').pathname;
+            } catch {
+                return null;
+            }
+        }
+        try {
+            path = decodeURIComponent(path);
+        } catch {
+            return null;
+        }
+        path = path.replace(/^(\.?\/)+/, '');
+        if (!path) return null;
+
+        const direct = [`${this.baseFolder}${path}`, path].find(candidate => this.entries.has(candidate));
+        if (direct) return direct;
+
+        // Server URLs rarely match the archive layout, so fall back to a file with the same name.
+        const fileName = path.split('/').pop() ?? '';
+        const matches = [...this.entries.keys()].filter(name => name.split('/').pop() === fileName);
+        return matches.length === 1 ? matches[0] : null;
+    }
+
+    getAttachmentSize(path: string): Promise<number | null> {
+        return Promise.resolve(this.entries.get(path)?.size ?? null);
+    }
+
+    async fetchAttachment(path: string): Promise<FetchedAttachment> {
+        const entry = this.entries.get(path);
+        if (!entry) throw new Error(`${path} is not in ${this.name}`);
+        return { data: await entry.read() };
+    }
+}
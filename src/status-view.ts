@@ -0,0 +1,143 @@
+import { ItemView, WorkspaceLeaf, moment } from 'obsidian';
+import type PebbleSyncPlugin from './main';
+import type { RunItem, SyncRun } from './history';
+
+export const VIEW_TYPE_SYNC_STATUS = 'pebble-sync-status';
+
+const OUTCOME_LABELS: Record<string, string> = {
+    'created': 'Created',
+    'updated': 'Updated',
+    'daily-entry': 'Daily entry',
+    'task': 'Task',
+    'skipped-duplicate': 'Duplicate',
+    'skipped-existing': 'Exists',
+    'kept-local': 'Kept vault copy',
+    'conflict': 'Conflict',
+    'failed': 'Failed',
+};
+
+const RUN_LABELS: Record<string, string> = {
+    'import': 'Import',
+    'force-import': 'Force re-import',
+    'file-import': 'Import from export file',
+    'preview': 'Preview import',
+    're-import': 'Re-import',
+    'push': 'Push',
+};
+
+/**
+ * Sidebar view with the last sync result and the persisted run history, including per-item
+ * actions to open, re-import or forget an item.
+ */
+export class SyncStatusView extends ItemView {
+    constructor(leaf: WorkspaceLeaf, private plugin: PebbleSyncPlugin) {
+        super(leaf);
+    }
+
+    getViewType() {
+        return VIEW_TYPE_SYNC_STATUS;
+    }
+
+    getDisplayText() {
+        return 'Pebble sync';
+    }
+
+    getIcon() {
+        return 'sync';
+    }
+
+    async onOpen() {
+        this.registerEvent(this.plugin.events.on('history-changed', () => this.render()));
+        this.registerEvent(this.plugin.events.on('sync-state-changed', () => this.render()));
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('pebble-sync-status');
+
+        const history = this.plugin.syncHistory;
+        const lastRun = history[0];
+
+        const headerEl = contentEl.createDiv({ cls: 'pebble-sync-status-header' });
+        const { sync } = this.plugin;
+        if (sync.isBusy) {
+            headerEl.createDiv({ text: sync.activeKey === 'push' ? 'Pushing local changes...' : 'Sync in progress...' });
+            if (sync.queued > 0) headerEl.createDiv({ cls: 'pebble-sync-status-counts', text: `${sync.queued} more waiting` });
+        } else if (lastRun) {
+            headerEl.createDiv({ text: `Last sync ${moment(lastRun.finishedAt ?? lastRun.startedAt).fromNow()}` });
+            headerEl.createDiv({ cls: 'pebble-sync-status-counts', text: this.formatCounts(lastRun) });
+        } else {
+            headerEl.createDiv({ text: 'No syncs yet' });
+        }
+
+        const actionsEl = headerEl.createDiv({ cls: 'pebble-sync-status-actions' });
+        actionsEl.createEl('button', { text: 'Import now' }).addEventListener('click', () => { void this.plugin.importNow(false); });
+        if (history.length > 0) {
+            actionsEl.createEl('button', { text: 'Clear history' }).addEventListener('click', () => { void this.plugin.clearSyncHistory(); });
+        }
+
+        history.forEach((run, index) => this.renderRun(contentEl, run, index === 0));
+    }
+
+    formatCounts(run: SyncRun): string {
+        const { created, updated, skipped, conflicts, failed } = run.counts;
+        const parts = [`${created} created`, `${updated} updated`, `${skipped} skipped`, `${failed} failed`];
+        if (conflicts > 0) parts.splice(3, 0, `${conflicts} conflicts`);
+        return parts.join(' · ');
+    }
+
+    renderRun(containerEl: HTMLElement, run: SyncRun, open: boolean) {
+        const runEl = containerEl.createEl('details', { cls: 'pebble-sync-run' });
+        runEl.open = open;
+        const summaryEl = runEl.createEl('summary');
+        const profile = this.plugin.settings.profiles.length > 1 && run.profileName ? ` · ${run.profileName}` : '';
+        summaryEl.createSpan({ text: `${moment(run.startedAt).format('YYYY-MM-DD HH:mm')} · ${RUN_LABELS[run.kind] ?? run.kind}${profile}` });
+        summaryEl.createDiv({ cls: 'pebble-sync-status-counts', text: this.formatCounts(run) });
+
+        if (run.error) {
+            runEl.createDiv({ cls: 'pebble-sync-template-error', text: run.error });
+        } else if (run.summary) {
+            runEl.createDiv({ cls: 'pebble-sync-run-summary', text: run.summary });
+        }
+
+        for (const item of run.items) {
+            this.renderItem(runEl, run, item);
+        }
+    }
+
+    renderItem(containerEl: HTMLElement, run: SyncRun, item: RunItem) {
+        const itemEl = containerEl.createDiv({ cls: 'pebble-sync-run-item' });
+        const titleEl = itemEl.createDiv({ cls: 'pebble-sync-run-item-title' });
+        titleEl.createSpan({ cls: `pebble-sync-preview-action pebble-sync-action-${item.outcome}`, text: OUTCOME_LABELS[item.outcome] ?? item.outcome });
+
+        const path = item.path;
+        if (path) {
+            const linkEl = titleEl.createEl('a', { text: item.title, cls: 'internal-link' });
+            linkEl.addEventListener('click', (event) => {
+                event.preventDefault();
+                void this.app.workspace.openLinkText(path, '', false);
+            });
+        } else {
+            titleEl.createSpan({ text: item.title });
+        }
+
+        if (item.error) {
+            itemEl.createDiv({ cls: 'pebble-sync-template-error', text: item.error });
+        }
+
+        const actionsEl = itemEl.createDiv({ cls: 'pebble-sync-status-actions' });
+        if (path) {
+            actionsEl.createEl('button', { text: 'Open' }).addEventListener('click', () => { void this.app.workspace.openLinkText(path, '', false); });
+        }
+        // Pushed items were never imported, so there is nothing to re-import or forget.
+        if (run.kind === 'push') return;
+        actionsEl.createEl('button', { text: 'Re-import' }).addEventListener('click', () => { void this.plugin.reimportItem(item, run.profileId); });
+        actionsEl.createEl('button', { text: 'Forget' }).addEventListener('click', () => { void this.plugin.forgetImportedKey(item.key, run.profileId); });
+    }
+}
@@ -0,0 +1,124 @@
+/**
+ * Makes sure only one sync touches the vault and the stored keys at a time. A trigger for a sync
+ * that is already running or queued joins it; other syncs wait their turn. Keys of the form
+ * `kind:a,b` cover each listed ID, so `import:p1` joins a running `import:p1,p2`.
+ */
+
+export class SyncCancelledError extends Error {
+    constructor() {
+        super('Sync cancelled');
+        this.name = 'SyncCancelledError';
+    }
+}
+
+export const throwIfCancelled = (signal: AbortSignal | null | undefined) => {
+    if (signal?.aborted) throw new SyncCancelledError();
+};
+
+const parseKey = (key: string): { kind: string; ids: string[] } => {
+    const separator = key.indexOf(':');
+    return separator === -1 ? { kind: key, ids: [] } : { kind: key.substring(0, separator), ids: key.substring(separator + 1).split(',') };
+};
+
+export class SyncCoordinator {
+    private running: string | null = null;
+    private controller: AbortController | null = null;
+    private tail: Promise<void> = Promise.resolve();
+    private pending = new Map<string, Promise<void>>();
+    // Bumped on cancel so queued syncs are dropped along with the running one.
+    private generation = 0;
+
+    /** Called whenever a sync is queued, starts or ends. */
+    constructor(private onChange: () => void = () => undefined) {}
+
+    get isRunning(): boolean {
+        return this.running !== null;
+    }
+
+    /** Whether a sync is running or waiting. */
+    get isBusy(): boolean {
+        return this.pending.size > 0;
+    }
+
+    /** The key of the running sync, if any. */
+    get activeKey(): string | null {
+        return this.running;
+    }
+
+    /** How many syncs are waiting for the running one. */
+    get queued(): number {
+        return this.pending.size - (this.running === null ? 0 : 1);
+    }
+
+    /** The cancellation signal of the running sync, if any. */
+    get signal(): AbortSignal | null {
+        return this.controller?.signal ?? null;
+    }
+
+    /** Whether running or waiting syncs cover this key. */
+    has(key: string): boolean {
+        return this.findCovering(key) !== null;
+    }
+
+    /**
+     * Queues the task unless running or waiting syncs cover its key, in which case they are joined.
+     * Callers narrow partly covered keys themselves, since only they know how to split the task.
+     */
+    run(key: string, task: (signal: AbortSignal) => Promise<void>): Promise<void> {
+        const covering = this.findCovering(key);
+        if (covering) return Promise.all(covering).then(() => undefined);
+
+        const generation = this.generation;
+        const promise = this.tail.then(async () => {
+            if (generation !== this.generation) {
+                this.pending.delete(key);
+                this.onChange();
+                return;
+            }
+            const controller = new AbortController();
+            this.controller = controller;
+            this.running = key;
+            this.onChange();
+            try {
+                await task(controller.signal);
+            } finally {
+                this.running = null;
+                this.controller = null;
+                this.pending.delete(key);
+                this.onChange();
+            }
+        });
+        this.pending.set(key, promise);
+        this.tail = promise.catch(() => undefined);
+        this.onChange();
+        return promise;
+    }
+
+    /** The syncs that together cover every ID of the key, or null when some ID isn't covered. */
+    private findCovering(key: string): Promise<void>[] | null {
+        const exact = this.pending.get(key);
+        if (exact) return [exact];
+        const { kind, ids } = parseKey(key);
+        if (ids.length === 0) return null;
+
+        const covering = new Set<Promise<void>>();
+        for (const id of ids) {
+            let found: Promise<void> | undefined;
+            this.pending.forEach((promise, pendingKey) => {
+                const pending = parseKey(pendingKey);
+                if (!found && pending.kind === kind && pending.ids.includes(id)) found = promise;
+            });
+            if (!found) return null;
+            covering.add(found);
+        }
+        return [...covering];
+    }
+
+    /** Asks the running sync to stop at the next safe point and drops queued ones. Returns false when nothing is running. */
+    cancel(): boolean {
+        this.generation++;
+        if (!this.controller || this.controller.signal.aborted) return false;
+        this.controller.abort();
+        return true;
+    }
+}
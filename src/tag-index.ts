@@ -0,0 +1,62 @@
+/**
+ * Index notes listing every imported note with a Pebble tag. Each entry is a list item that starts
+ * with the capture time, so later syncs can add entries and keep the list in date order without
+ * touching anything else in the note.
+ */
+
+export interface TagIndexEntry {
+    time: string; // YYYY-MM-DD HH:mm
+    link: string;
+}
+
+const ENTRY_REGEX = /^- (\d{4}-\d{2}-\d{2} \d{2}:\d{2}) /;
+
+const WIKILINK_REGEX = /\[\[([^\]|#^]+)/;
+
+const MARKDOWN_LINK_REGEX = /\]\(\s*<?([^)>#]+)/;
+
+// The tag is not written as a #tag, so the index itself doesn't show up under it.
+export const createTagIndex = (tag: string): string => `# ${tag}\n\nPebble notes tagged ${tag}, oldest first.\n`;
+
+/** The link path of the note an entry links to, or null for lines that are not entries. */
+export const getEntryLinkpath = (line: string): string | null => {
+    if (!ENTRY_REGEX.test(line)) return null;
+    const wikilink = WIKILINK_REGEX.exec(line);
+    if (wikilink) return wikilink[1].trim();
+    const markdownLink = MARKDOWN_LINK_REGEX.exec(line);
+    if (!markdownLink) return null;
+    try {
+        return decodeURIComponent(markdownLink[1].trim());
+    } catch {
+        return markdownLink[1].trim();
+    }
+};
+
+/**
+ * Adds the entries, drops existing ones `keep` rejects and sorts all entries by time. The entries
+ * stay where the first one was; a note without entries gets them appended.
+ */
+export const updateTagIndex = (content: string, added: TagIndexEntry[], keep: (line: string) => boolean): string => {
+    const rest: string[] = [];
+    const entries: string[] = [];
+    let insertIndex = -1;
+    for (const line of content.split('\n')) {
+        if (!ENTRY_REGEX.test(line)) {
+            rest.push(line);
+            continue;
+        }
+        if (insertIndex === -1) insertIndex = rest.length;
+        if (keep(line)) entries.push(line);
+    }
+    entries.push(...added.map(entry => `- ${entry.time} ${entry.link}`));
+    // Array.prototype.sort is stable, so entries from the same minute keep their order.
+    entries.sort((a, b) => (ENTRY_REGEX.exec(a)?.[1] ?? '').localeCompare(ENTRY_REGEX.exec(b)?.[1] ?? ''));
+
+    if (insertIndex === -1) {
+        while (rest.length > 0 && rest[rest.length - 1].trim() === '') rest.pop();
+        if (rest.length > 0) rest.push('');
+        insertIndex = rest.length;
+    }
+    rest.splice(insertIndex, 0, ...entries);
+    return `${rest.join('\n').replace(/\n*$/, '')}\n`;
+};
@@ -0,0 +1,289 @@
+import { moment } from 'obsidian';
+
+/**
+ * A small logic-light template language for atomic notes.
+ *
+ *   {{content}}                  variable lookup (case-insensitive, dotted paths)
+ *   {{date:YYYY-MM-DD}}          moment formatting of the note date or any date value
+ *   {{tags | yaml}}              filters, optionally with an argument: {{title | default:Untitled}}
+ *   {{#if tags}}…{{else}}…{{/if}}
+ *   {{#each tags}}{{this}}{{@index}}{{/each}}
+ */
+
+export class TemplateError extends Error {
+    constructor(message: string, public position: number) {
+        super(message);
+        this.name = 'TemplateError';
+    }
+}
+
+export interface TemplateScope {
+    data: Record<string, unknown>;
+    moment: moment.Moment;
+    day?: moment.Moment; // The day the note counts toward, when it differs from the capture's calendar day
+}
+
+interface Expression {
+    path: string;
+    format?: string;
+    filters: { name: string; arg?: string }[];
+}
+
+type TemplateNode =
+    | { kind: 'text'; value: string }
+    | { kind: 'value'; expression: Expression }
+    | { kind: 'if'; expression: Expression; then: TemplateNode[]; otherwise: TemplateNode[] }
+    | { kind: 'each'; expression: Expression; body: TemplateNode[] };
+
+type Filter = (value: unknown, arg: string | undefined) => unknown;
+
+const TAG_REGEX = /{{\s*([\s\S]*?)\s*}}/;
+
+const isPlainYamlScalar = (value: string): boolean =>
+    /^[A-Za-z0-9_][\w ./-]*$/.test(value)
+    && !/\s$/.test(value)
+    && !/^(true|false|yes|no|on|off|null|~)$/i.test(value)
+    && !/^[-+]?(\d|\.\d)/.test(value);
+
+const toYaml = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(toYaml).join(', ')}]`;
+    if (value === null || value === undefined) return '""';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (typeof value === 'object') return JSON.stringify(value);
+    const text = stringify(value);
+    return isPlainYamlScalar(text) ? text : JSON.stringify(text);
+};
+
+const formatDate = (value: unknown, format: string): string => {
+    if (moment.isMoment(value)) return value.format(format);
+    if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) return '';
+    const parsed = moment(value);
+    return parsed.isValid() ? parsed.format(format) : '';
+};
+
+const FILTERS: Record<string, Filter> = {
+    yaml: value => toYaml(value),
+    json: value => JSON.stringify(value ?? null),
+    lower: value => stringify(value).toLowerCase(),
+    upper: value => stringify(value).toUpperCase(),
+    trim: value => stringify(value).trim(),
+    slug: value => stringify(value)
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^\p{L}\p{N}]+/gu, '-')
+        .replace(/^-+|-+$/g, ''),
+    join: (value, arg) => Array.isArray(value) ? value.map(stringify).join(arg ?? ', ') : stringify(value),
+    default: (value, arg) => isTruthy(value) ? value : (arg ?? ''),
+    date: (value, arg) => formatDate(value, arg || 'YYYY-MM-DD'),
+    length: value => Array.isArray(value) ? value.length : stringify(value).length,
+    first: value => Array.isArray(value) ? (value as unknown[])[0] : value,
+    last: value => Array.isArray(value) ? (value as unknown[])[value.length - 1] : value,
+};
+
+export const stringify = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.filter(item => item !== null && item !== undefined && item !== '').map(stringify).join(', ');
+    if (moment.isMoment(value)) return value.format('YYYY-MM-DD HH:mm');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value as string | number | boolean);
+};
+
+const isTruthy = (value: unknown): boolean => {
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') return value.trim().length > 0;
+    return !!value;
+};
+
+const unquote = (value: string): string => {
+    const trimmed = value.trim();
+    const quoted = /^(['"])([\s\S]*)\1$/.exec(trimmed);
+    return quoted ? quoted[2] : trimmed;
+};
+
+/** Splits on `|` outside of quotes. */
+const splitPipes = (source: string): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    let quote = '';
+    for (const char of source) {
+        if (quote) {
+            if (char === quote) quote = '';
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === '|') {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts;
+};
+
+const parseExpression = (source: string, position: number): Expression => {
+    const [head, ...filterParts] = splitPipes(source);
+    const headMatch = /^\s*(@?[\w.-]+)\s*(?::([\s\S]*))?$/.exec(head);
+    if (!headMatch) {
+        throw new TemplateError(`Invalid expression "{{${source}}}"`, position);
+    }
+
+    const filters = filterParts.map(part => {
+        const match = /^\s*([\w-]+)\s*(?::([\s\S]*))?$/.exec(part);
+        if (!match) {
+            throw new TemplateError(`Invalid filter "${part.trim()}" in "{{${source}}}"`, position);
+        }
+        const name = match[1].toLowerCase();
+        if (!FILTERS[name]) {
+            throw new TemplateError(`Unknown filter "${name}" in "{{${source}}}"`, position);
+        }
+        return { name, arg: match[2] !== undefined ? unquote(match[2]) : undefined };
+    });
+
+    return { path: headMatch[1], format: headMatch[2]?.trim() || undefined, filters };
+};
+
+/** Parses a template into a node tree, throwing a TemplateError on malformed input. */
+export const parseTemplate = (source: string): TemplateNode[] => {
+    const root: TemplateNode[] = [];
+    // Each frame collects nodes for the currently open block; `target` switches to the else branch.
+    const stack: { node: TemplateNode | null; target: TemplateNode[]; position: number }[] = [{ node: null, target: root, position: 0 }];
+    let lastIndex = 0;
+
+    const tagRegex = new RegExp(TAG_REGEX.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = tagRegex.exec(source)) !== null) {
+        const position = match.index;
+        const frame = stack[stack.length - 1];
+        if (position > lastIndex) {
+            frame.target.push({ kind: 'text', value: source.slice(lastIndex, position) });
+        }
+        lastIndex = position + match[0].length;
+
+        const tag = match[1];
+        const block = /^([#/])\s*(\w+)\s*([\s\S]*)$/.exec(tag);
+
+        if (/^else$/i.test(tag)) {
+            if (frame.node?.kind !== 'if' || frame.target === frame.node.otherwise) {
+                throw new TemplateError('{{else}} without a matching {{#if}}', position);
+            }
+            frame.target = frame.node.otherwise;
+        } else if (block && block[1] === '#') {
+            const keyword = block[2].toLowerCase();
+            if (!block[3].trim()) {
+                throw new TemplateError(`{{#${keyword}}} needs a variable`, position);
+            }
+            const expression = parseExpression(block[3], position);
+            let node: TemplateNode;
+            if (keyword === 'if') {
+                node = { kind: 'if', expression, then: [], otherwise: [] };
+                stack.push({ node, target: node.then, position });
+            } else if (keyword === 'each') {
+                node = { kind: 'each', expression, body: [] };
+                stack.push({ node, target: node.body, position });
+            } else {
+                throw new TemplateError(`Unknown block {{#${keyword}}}`, position);
+            }
+            frame.target.push(node);
+        } else if (block && block[1] === '/') {
+            const keyword = block[2].toLowerCase();
+            if (stack.length === 1 || frame.node?.kind !== keyword) {
+                throw new TemplateError(`Unexpected {{/${keyword}}}`, position);
+            }
+            stack.pop();
+        } else {
+            frame.target.push({ kind: 'value', expression: parseExpression(tag, position) });
+        }
+    }
+
+    if (stack.length > 1) {
+        const open = stack[stack.length - 1];
+        throw new TemplateError(`Unclosed {{#${open.node?.kind ?? ''}}} block`, open.position);
+    }
+    if (lastIndex < source.length) {
+        root.push({ kind: 'text', value: source.slice(lastIndex) });
+    }
+    return root;
+};
+
+const lookup = (source: unknown, key: string): unknown => {
+    if (source === null || typeof source !== 'object') return undefined;
+    const record = source as Record<string, unknown>;
+    if (key in record) return record[key];
+    const lowered = key.toLowerCase();
+    const match = Object.keys(record).find(candidate => candidate.toLowerCase() === lowered);
+    return match !== undefined ? record[match] : undefined;
+};
+
+const evaluate = (expression: Expression, frames: Record<string, unknown>[], scope: TemplateScope): unknown => {
+    const [first, ...rest] = expression.path.split('.');
+    let value: unknown;
+
+    if (first === 'this') {
+        value = frames[frames.length - 1]?.this;
+    } else if (first === '@index') {
+        value = frames[frames.length - 1]?.['@index'];
+    } else if (first.toLowerCase() === 'date' && expression.format && rest.length === 0) {
+        // The date comes from the note's day, like {{date}}, and the time from the capture.
+        const day = scope.day;
+        value = day ? scope.moment.clone().set({ year: day.year(), month: day.month(), date: day.date() }) : scope.moment;
+    } else {
+        for (let i = frames.length - 1; i >= 0 && value === undefined; i--) {
+            value = lookup(frames[i], first);
+        }
+    }
+    for (const key of rest) {
+        value = lookup(value, key);
+    }
+
+    if (expression.format) {
+        value = formatDate(value, expression.format);
+    }
+    for (const filter of expression.filters) {
+        value = FILTERS[filter.name](value, filter.arg);
+    }
+    return value;
+};
+
+const renderNodes = (nodes: TemplateNode[], frames: Record<string, unknown>[], scope: TemplateScope): string => {
+    let output = '';
+    for (const node of nodes) {
+        if (node.kind === 'text') {
+            output += node.value;
+        } else if (node.kind === 'value') {
+            output += stringify(evaluate(node.expression, frames, scope));
+        } else if (node.kind === 'if') {
+            const branch = isTruthy(evaluate(node.expression, frames, scope)) ? node.then : node.otherwise;
+            output += renderNodes(branch, frames, scope);
+        } else {
+            const items = evaluate(node.expression, frames, scope);
+            const list = Array.isArray(items) ? items : (isTruthy(items) ? [items] : []);
+            list.forEach((item, index) => {
+                const frame: Record<string, unknown> = { this: item, '@index': index };
+                if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+                    Object.assign(frame, item);
+                }
+                output += renderNodes(node.body, [...frames, frame], scope);
+            });
+        }
+    }
+    return output;
+};
+
+export const renderTemplate = (source: string, scope: TemplateScope): string =>
+    renderNodes(parseTemplate(source), [scope.data], scope);
+
+/** Returns a readable parse error for the template, or null when it is valid. */
+export const validateTemplate = (source: string): string | null => {
+    try {
+        parseTemplate(source);
+        return null;
+    } catch (error) {
+        if (error instanceof TemplateError) {
+            const line = source.slice(0, error.position).split('\n').length;
+            return `Line ${line}: ${error.message}`;
+        }
+        throw error;
+    }
+};
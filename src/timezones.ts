@@ -0,0 +1,70 @@
+import { moment } from 'obsidian';
+
+/**
+ * Time zone handling for capture timestamps. moment-timezone isn't available in Obsidian, so
+ * offsets come from Intl and are looked up per instant to follow daylight saving changes.
+ */
+
+export class InvalidTimestampError extends Error {
+    constructor(public value: unknown) {
+        super(value === undefined || value === null || value === '' ? 'Missing capture time' : `Invalid capture time ${JSON.stringify(value)}`);
+        this.name = 'InvalidTimestampError';
+    }
+}
+
+// Timestamps ending in one of these carry their own offset and ignore the source time zone.
+const OFFSET_REGEX = /(?:Z|[+-]\d{2}(?::?\d{2})?)$/i;
+
+const ISO_DATE_TIME_REGEX = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export const isValidTimeZone = (zone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: zone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/** The time zone of the device, e.g. `Europe/Berlin`. */
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone ?? '';
+
+/** Minutes the zone is ahead of UTC at the given instant. */
+export const getZoneOffset = (instant: number, zone: string): number => {
+    let formatter = formatters.get(zone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: zone, hour12: false, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+        });
+        formatters.set(zone, formatter);
+    }
+    const match = /(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+):(\d+)/.exec(formatter.format(new Date(instant)));
+    if (!match) return 0;
+    const [month, day, year, hour, minute, second] = match.slice(1).map(Number);
+    // Some engines format midnight as hour 24.
+    const wallTime = Date.UTC(year, month - 1, day, hour % 24, minute, second);
+    return Math.round((wallTime - Math.floor(instant / 1000) * 1000) / 60000);
+};
+
+/**
+ * Parses a capture timestamp into an instant. Timestamps without an offset are read as wall time
+ * in the source zone, or in the device's zone when none is set. Returns null when invalid.
+ */
+export const parseTimestamp = (value: unknown, sourceZone: string): number | null => {
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const trimmed = value.trim();
+    const parsed = moment(trimmed, [moment.ISO_8601, moment.RFC_2822]);
+    if (!parsed.isValid()) return null;
+    if (!sourceZone || OFFSET_REGEX.test(trimmed) || !ISO_DATE_TIME_REGEX.test(trimmed)) return parsed.valueOf();
+
+    // The offset depends on the instant, so correct the first guess once for daylight saving changes.
+    const wallTime = moment.utc(trimmed, moment.ISO_8601).valueOf();
+    const guess = wallTime - getZoneOffset(wallTime, sourceZone) * 60000;
+    return wallTime - getZoneOffset(guess, sourceZone) * 60000;
+};
+
+/** A moment for the instant in the given zone, or the device's zone when none is set. */
+export const momentInZone = (instant: number, zone: string): moment.Moment =>
+    zone ? moment(instant).utcOffset(getZoneOffset(instant, zone)) : moment(instant);
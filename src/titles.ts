@@ -0,0 +1,94 @@
+/**
+ * Titles for atomic notes. Each strategy reads the title from a different part of the capture;
+ * when it finds nothing the first sentence is used, then the tag.
+ */
+
+export type TitleStrategy = 'auto' | 'server' | 'heading' | 'first-sentence' | 'tag-words' | 'tag';
+
+export const TITLE_STRATEGY_LABELS: Record<TitleStrategy, string> = {
+    'auto': 'Server title, heading or first sentence',
+    'server': 'Title sent by the server',
+    'heading': 'First heading',
+    'first-sentence': 'First sentence',
+    'tag-words': 'Tag and first words',
+    'tag': 'Tag only',
+};
+
+export const MAX_TITLE_LENGTH = 60;
+
+const TAG_WORD_COUNT = 5;
+
+const HEADING_REGEX = /^#{1,6}\s+(.+?)\s*#*\s*$/m;
+
+const FRONTMATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/;
+
+/** Reduces markdown to its plain text on one line. */
+export const stripMarkdown = (markdown: string): string => markdown
+    .replace(FRONTMATTER_REGEX, '')
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!\[\[[^\]]*\]\]/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[\[([^\]|]*)\|?([^\]]*)\]\]/g, (_match: string, target: string, label: string) => label || target)
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/gm, '')
+    .replace(/^\s*(?:>\s*)+(?:\[![^\]]*\][+-]?\s*)?/gm, '')
+    .replace(/^\s*#{1,6}\s+/gm, '')
+    .replace(/(^|\s)#[^\s#]+/g, '$1')
+    .replace(/(\*\*|__|~~|==|[*_`])/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Shortens the text to the last whole word that fits. */
+export const truncateAtWord = (text: string, maxLength = MAX_TITLE_LENGTH): string => {
+    if (text.length <= maxLength) return text;
+    const cut = text.substring(0, maxLength + 1);
+    const boundary = cut.lastIndexOf(' ');
+    const shortened = boundary > maxLength / 2 ? cut.substring(0, boundary) : text.substring(0, maxLength);
+    return shortened.replace(/[\s,;:–-]+$/, '');
+};
+
+export const getFirstHeading = (markdown: string): string => {
+    const match = HEADING_REGEX.exec(markdown.replace(FRONTMATTER_REGEX, ''));
+    return match ? truncateAtWord(stripMarkdown(match[1])) : '';
+};
+
+/** The first sentence of the first paragraph with text. */
+export const getFirstSentence = (markdown: string): string => {
+    const paragraph = markdown.replace(FRONTMATTER_REGEX, '').split(/\r?\n\s*\r?\n/).map(stripMarkdown).find(Boolean) ?? '';
+    const sentence = /^.+?[.!?…](?=\s|$)/.exec(paragraph)?.[0] ?? paragraph;
+    return truncateAtWord(sentence.replace(/[.…]+$/, ''));
+};
+
+const getFirstWords = (markdown: string): string =>
+    stripMarkdown(markdown).split(' ').slice(0, TAG_WORD_COUNT).join(' ').replace(/[\s,;:.!?–-]+$/, '');
+
+/**
+ * The title for the strategy, or an empty string when the capture has nothing to go on.
+ * `tag` is the capitalized trigger or default tag, if any.
+ */
+export const buildTitle = (strategy: TitleStrategy, note: { markdown?: string; title?: unknown }, tag: string): string => {
+    const markdown = note.markdown || '';
+    const serverTitle = typeof note.title === 'string' ? truncateAtWord(stripMarkdown(note.title)) : '';
+    let title = '';
+    switch (strategy) {
+        case 'auto':
+            title = serverTitle || getFirstHeading(markdown);
+            break;
+        case 'server':
+            title = serverTitle;
+            break;
+        case 'heading':
+            title = getFirstHeading(markdown);
+            break;
+        case 'tag-words': {
+            const words = getFirstWords(markdown);
+            title = tag && words ? truncateAtWord(`${tag} ${words}`) : '';
+            break;
+        }
+        case 'tag':
+            title = tag;
+            break;
+    }
+    return title || getFirstSentence(markdown) || tag;
+};
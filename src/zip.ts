@@ -0,0 +1,81 @@
+/**
+ * A small ZIP reader for Pebble export archives. Obsidian doesn't ship a ZIP library, so this reads
+ * the central directory itself and inflates entries with the platform's DecompressionStream.
+ * ZIP64 archives and encrypted entries are not supported.
+ */
+
+export interface ZipEntry {
+    name: string; // Path inside the archive, with forward slashes
+    size: number; // Uncompressed size in bytes
+    read(): Promise<ArrayBuffer>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+// The end record is 22 bytes, followed by a comment of up to 65535 bytes.
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+export const isZip = (data: ArrayBuffer): boolean =>
+    data.byteLength >= 4 && new DataView(data).getUint32(0, true) === LOCAL_FILE_HEADER;
+
+const inflate = async (data: Uint8Array): Promise<ArrayBuffer> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return await new Response(stream).arrayBuffer();
+};
+
+const findEndRecord = (view: DataView): number => {
+    const last = view.byteLength - 22;
+    for (let offset = last; offset >= 0 && offset >= last - MAX_END_RECORD_SEARCH; offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new Error('Not a ZIP archive');
+};
+
+/** Lists the files of the archive. Entries are only decompressed when read. */
+export const readZip = (data: ArrayBuffer): ZipEntry[] => {
+    const view = new DataView(data);
+    const bytes = new Uint8Array(data);
+    const decoder = new TextDecoder('utf-8');
+
+    const endRecord = findEndRecord(view);
+    const entryCount = view.getUint16(endRecord + 10, true);
+    let offset = view.getUint32(endRecord + 16, true);
+    if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error('The ZIP archive is damaged');
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const size = view.getUint32(offset + 24, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const headerOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)).replace(/\\/g, '/');
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+        entries.push({
+            name,
+            size,
+            read: async () => {
+                if (flags & 0x1) throw new Error(`${name} is encrypted`);
+                if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER) throw new Error('The ZIP archive is damaged');
+                // The local header repeats the name but may carry a different extra field.
+                const start = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+                const content = bytes.subarray(start, start + compressedSize);
+                if (method === STORED) return content.slice().buffer;
+                if (method === DEFLATED) return await inflate(content);
+                throw new Error(`${name} uses an unsupported compression method`);
+            }
+        });
+    }
+    return entries;
+};